@@ -1,5 +1,11 @@
-import type { Handle } from "@sveltejs/kit";
+import type { Handle, ServerInit } from "@sveltejs/kit";
 import { validateSession } from "$lib/server/auth/session";
+import { startScheduler } from "$lib/server/jobs";
+
+export const init: ServerInit = async () => {
+	// Run background jobs (session cleanup, Visma sync, reminders) while the server is up
+	startScheduler();
+};
 
 export const handle: Handle = async ({ event, resolve }) => {
 	// Validate session and attach user to locals
@@ -0,0 +1,2 @@
+// Timezone for users who have not picked their own
+export const DEFAULT_TIMEZONE = "Europe/Helsinki";
@@ -1,11 +1,12 @@
-import { format, parseISO, isValid, set, startOfDay, getYear, addDays, nextFriday, nextSaturday, isSameDay } from "date-fns";
+import { format, parseISO, isValid, set, startOfDay, addDays } from "date-fns";
+import { formatInTimeZone, fromZonedTime, toZonedTime } from "date-fns-tz";
 
 /**
- * Format a date to time string (HH:mm)
+ * Format a date to time string (HH:mm), in the given timezone when one is passed
  */
-export function formatTime(date: Date | string): string {
+export function formatTime(date: Date | string, timeZone?: string): string {
 	const d = typeof date === "string" ? new Date(date) : date;
-	return format(d, "HH:mm");
+	return timeZone ? formatInTimeZone(d, timeZone, "HH:mm") : format(d, "HH:mm");
 }
 
 /**
@@ -42,10 +43,24 @@ export function formatDuration(startTime: Date | string, endTime: Date | string)
 	}
 }
 
+/**
+ * Get today's calendar date, as seen in the given timezone
+ */
+export function getToday(timeZone?: string): Date {
+	return startOfDay(timeZone ? toZonedTime(new Date(), timeZone) : new Date());
+}
+
+/**
+ * Format a calendar date as the day key sent to the server (yyyy-MM-dd)
+ */
+export function toDayKey(date: Date): string {
+	return format(date, "yyyy-MM-dd");
+}
+
 /**
  * Parse initial date from URL search params or return today
  */
-export function getInitialDate(searchParams: URLSearchParams): Date {
+export function getInitialDate(searchParams: URLSearchParams, timeZone?: string): Date {
 	const dateParam = searchParams.get("date");
 	if (dateParam) {
 		const parsed = parseISO(dateParam);
@@ -53,77 +68,53 @@ export function getInitialDate(searchParams: URLSearchParams): Date {
 			return parsed;
 		}
 	}
-	return new Date();
+	return getToday(timeZone);
 }
 
 /**
  * Parse time string (HH:mm) and combine with a date
+ * With a timezone the time is read as wall-clock time in that zone
  */
-export function parseTimeToDate(date: Date, timeStr: string): Date {
+export function parseTimeToDate(date: Date, timeStr: string, timeZone?: string): Date {
 	const [hour, min] = timeStr.split(":").map(Number);
-	return set(startOfDay(date), { hours: hour, minutes: min });
+	const local = set(startOfDay(date), { hours: hour, minutes: min });
+	return timeZone ? fromZonedTime(local, timeZone) : local;
 }
 
 /**
- * Calculate Easter Sunday for a given year using the Anonymous Gregorian algorithm
+ * Parse start and end time strings (HH:mm) on a date
+ * The end is on the following day only when the user says so, an end before the start
+ * on the same day is left for the server to reject
  */
-function calculateEaster(year: number): Date {
-	const a = year % 19;
-	const b = Math.floor(year / 100);
-	const c = year % 100;
-	const d = Math.floor(b / 4);
-	const e = b % 4;
-	const f = Math.floor((b + 8) / 25);
-	const g = Math.floor((b - f + 1) / 3);
-	const h = (19 * a + b - d - g + 15) % 30;
-	const i = Math.floor(c / 4);
-	const k = c % 4;
-	const l = (32 + 2 * e + 2 * i - h - k) % 7;
-	const m = Math.floor((a + 11 * h + 22 * l) / 451);
-	const month = Math.floor((h + l - 7 * m + 114) / 31);
-	const day = ((h + l - 7 * m + 114) % 31) + 1;
-	return new Date(year, month - 1, day);
-}
-
-/**
- * Get all Finnish official holidays for a given year
- */
-export function getFinnishHolidays(year: number): Date[] {
-	const holidays: Date[] = [];
+export function parseTimeRange(
+	date: Date,
+	startTimeStr: string,
+	endTimeStr: string,
+	timeZone?: string,
+	endsNextDay = false
+): { startTime: Date; endTime: Date | null } {
+	const startTime = parseTimeToDate(date, startTimeStr, timeZone);
+	if (!endTimeStr) return { startTime, endTime: null };
 
-	// Fixed holidays
-	holidays.push(new Date(year, 0, 1));   // New Year's Day
-	holidays.push(new Date(year, 0, 6));   // Epiphany
-	holidays.push(new Date(year, 4, 1));   // May Day (Vappu)
-	holidays.push(new Date(year, 11, 6));  // Independence Day
-	holidays.push(new Date(year, 11, 24)); // Christmas Eve
-	holidays.push(new Date(year, 11, 25)); // Christmas Day
-	holidays.push(new Date(year, 11, 26)); // Boxing Day (St. Stephen's Day)
-
-	// Easter-based holidays
-	const easter = calculateEaster(year);
-	holidays.push(addDays(easter, -2));  // Good Friday
-	holidays.push(easter);                // Easter Sunday
-	holidays.push(addDays(easter, 1));   // Easter Monday
-	holidays.push(addDays(easter, 39));  // Ascension Day
-
-	// Midsummer (Friday between June 19-25)
-	const midsummerEve = nextFriday(new Date(year, 5, 18)); // Friday after June 18
-	holidays.push(midsummerEve);          // Midsummer Eve
-	holidays.push(addDays(midsummerEve, 1)); // Midsummer Day
-
-	// All Saints' Day (Saturday between Oct 31 - Nov 6)
-	const allSaintsDay = nextSaturday(new Date(year, 9, 30)); // Saturday after Oct 30
-	holidays.push(allSaintsDay);
+	if (endTimeStr === startTimeStr) {
+		throw new Error("End time must differ from start time");
+	}
 
-	return holidays;
+	const endDate = endsNextDay ? addDays(date, 1) : date;
+	return { startTime, endTime: parseTimeToDate(endDate, endTimeStr, timeZone) };
 }
 
 /**
- * Check if a date is a Finnish official holiday
+ * Check whether an entry ends on a later day than it starts, in the given timezone when one is passed
  */
-export function isFinnishHoliday(date: Date): boolean {
-	const year = getYear(date);
-	const holidays = getFinnishHolidays(year);
-	return holidays.some(holiday => isSameDay(holiday, date));
+export function isOvernight(
+	startTime: Date | string,
+	endTime: Date | string,
+	timeZone?: string
+): boolean {
+	const dayOf = (date: Date | string) => {
+		const d = typeof date === "string" ? new Date(date) : date;
+		return timeZone ? formatInTimeZone(d, timeZone, "yyyy-MM-dd") : format(d, "yyyy-MM-dd");
+	};
+	return dayOf(endTime) > dayOf(startTime);
 }
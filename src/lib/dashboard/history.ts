@@ -0,0 +1,64 @@
+import { format } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
+
+// Entry fields as stored in the history
+export type HistorySnapshot = {
+	startTime: Date | string;
+	endTime: Date | string | null;
+	description: string | null;
+	phaseName: string | null;
+	worktypeName: string | null;
+	status: string;
+};
+
+export interface FieldChange {
+	label: string;
+	from: string | null;
+	to: string | null;
+}
+
+export const HISTORY_EVENT_LABELS: Record<string, string> = {
+	create: "Created",
+	update: "Edited",
+	delete: "Deleted",
+	confirm: "Confirmed",
+	unconfirm: "Unconfirmed",
+	approve: "Approved",
+	reject: "Rejected",
+	sync: "Sent to Visma"
+};
+
+/**
+ * Format a moment with its day, in the given timezone when one is passed
+ */
+export function formatDateTime(date: Date | string, timeZone?: string): string {
+	const d = typeof date === "string" ? new Date(date) : date;
+	return timeZone
+		? formatInTimeZone(d, timeZone, "EEE d MMM HH:mm")
+		: format(d, "EEE d MMM HH:mm");
+}
+
+/**
+ * List the fields that differ between two snapshots of an entry
+ * A missing side lists every field of the other, as on create and delete
+ */
+export function describeEntryChanges(
+	before: HistorySnapshot | null,
+	after: HistorySnapshot | null,
+	timeZone?: string
+): FieldChange[] {
+	const fields: { label: string; value: (s: HistorySnapshot) => string | null }[] = [
+		{ label: "Start", value: (s) => formatDateTime(s.startTime, timeZone) },
+		{ label: "End", value: (s) => (s.endTime ? formatDateTime(s.endTime, timeZone) : null) },
+		{ label: "Description", value: (s) => s.description || null },
+		{ label: "Project", value: (s) => s.phaseName },
+		{ label: "Work type", value: (s) => s.worktypeName },
+		{ label: "Status", value: (s) => s.status }
+	];
+
+	return fields.flatMap(({ label, value }) => {
+		const from = before ? value(before) : null;
+		const to = after ? value(after) : null;
+		return from === to ? [] : [{ label, from, to }];
+	});
+}
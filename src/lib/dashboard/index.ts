@@ -1,3 +1,4 @@
 export * from "./date";
 export * from "./preferences";
 export * from "./store.svelte";
+export * from "./history";
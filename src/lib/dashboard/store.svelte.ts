@@ -1,7 +1,8 @@
 import { startOfWeek, addWeeks, subWeeks, addDays, isSameDay, format } from "date-fns";
 import { browser } from "$app/environment";
 import { replaceState } from "$app/navigation";
-import { getInitialDate } from "./date";
+import { DEFAULT_TIMEZONE } from "$lib/constants";
+import { getInitialDate, getToday } from "./date";
 
 // Type for entry data when copying
 type CopyEntryData = {
@@ -25,6 +26,7 @@ let _showNewEntryForm = $state(false);
 let _copyFromEntry = $state<CopyEntryData>(null);
 let _entryError = $state<EntryError>(null);
 let _error = $state("");
+let _timezone = $state(DEFAULT_TIMEZONE);
 
 // Getters for reactive access
 export function getSelectedDate() {
@@ -55,9 +57,14 @@ export function getEntryError() {
 	return _entryError;
 }
 
-// Initialize from URL params
-export function initializeFromUrl(searchParams: URLSearchParams) {
-	const date = getInitialDate(searchParams);
+export function getTimezone() {
+	return _timezone;
+}
+
+// Initialize from URL params and the user's timezone
+export function initializeFromUrl(searchParams: URLSearchParams, timezone?: string) {
+	if (timezone) _timezone = timezone;
+	const date = getInitialDate(searchParams, _timezone);
 	_selectedDate = date;
 	_currentWeekStart = startOfWeek(date, { weekStartsOn: 1 });
 }
@@ -85,7 +92,7 @@ export function navigateWeek(direction: "prev" | "next") {
 		direction === "prev" ? subWeeks(_currentWeekStart, 1) : addWeeks(_currentWeekStart, 1);
 
 	// If navigating to current week, select today; otherwise select Monday
-	const today = new Date();
+	const today = getToday(_timezone);
 	const currentWeekStart = startOfWeek(today, { weekStartsOn: 1 });
 	if (isSameDay(_currentWeekStart, currentWeekStart)) {
 		_selectedDate = today;
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import {
+	PERMISSIONS,
+	isUserRole,
+	hasPermission,
+	getRolesWithPermission,
+	hasAdminAccess
+} from "./permissions";
+
+describe("hasPermission", () => {
+	it("grants each role its own permissions", () => {
+		expect(hasPermission("manager", "approve-hours")).toBe(true);
+		expect(hasPermission("manager", "view-reports")).toBe(false);
+		expect(hasPermission("finance", "view-reports")).toBe(true);
+		expect(hasPermission("finance", "manage-sync")).toBe(false);
+	});
+
+	it("grants admins every permission and users none", () => {
+		for (const permission of PERMISSIONS) {
+			expect(hasPermission("admin", permission)).toBe(true);
+			expect(hasPermission("user", permission)).toBe(false);
+		}
+	});
+
+	it("grants nothing to unknown roles", () => {
+		expect(isUserRole("owner")).toBe(false);
+		expect(hasPermission("owner", "view-reports")).toBe(false);
+	});
+});
+
+describe("getRolesWithPermission", () => {
+	it("lists the roles granting a permission", () => {
+		expect(getRolesWithPermission("approve-hours")).toEqual(["manager", "admin"]);
+		expect(getRolesWithPermission("manage-users")).toEqual(["admin"]);
+	});
+});
+
+describe("hasAdminAccess", () => {
+	it("opens the admin pages for every permission except approving hours", () => {
+		expect(hasAdminAccess("admin")).toBe(true);
+		expect(hasAdminAccess("finance")).toBe(true);
+		expect(hasAdminAccess("manager")).toBe(false);
+		expect(hasAdminAccess("user")).toBe(false);
+	});
+});
@@ -0,0 +1,57 @@
+// Roles a user can have - stored as a plain string in users.role
+export const USER_ROLES = ["user", "manager", "finance", "admin"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+// What a role allows beyond logging the user's own hours
+export const PERMISSIONS = [
+	"view-reports", // Reconciliation report and sync history, read only
+	"manage-sync", // Visma imports, exports and background jobs
+	"approve-hours", // Approve or reject confirmed days on managed cases
+	"manage-users" // Change roles and activate or deactivate users
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+	user: [],
+	manager: ["approve-hours"],
+	finance: ["view-reports"],
+	admin: PERMISSIONS
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+	user: "User",
+	manager: "Manager",
+	finance: "Finance",
+	admin: "Admin"
+};
+
+/**
+ * Check whether a role is one of the known roles
+ */
+export function isUserRole(role: string): role is UserRole {
+	return (USER_ROLES as readonly string[]).includes(role);
+}
+
+/**
+ * Check whether a role grants a permission - unknown roles grant nothing
+ */
+export function hasPermission(role: string, permission: Permission): boolean {
+	return isUserRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Get the roles that grant a permission
+ */
+export function getRolesWithPermission(permission: Permission): UserRole[] {
+	return USER_ROLES.filter((role) => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+/**
+ * Check whether a role can open the admin pages
+ * Approving hours has its own page, every other permission is managed under admin
+ */
+export function hasAdminAccess(role: string): boolean {
+	return PERMISSIONS.some(
+		(permission) => permission !== "approve-hours" && hasPermission(role, permission)
+	);
+}
@@ -1,21 +1,138 @@
 import { query, command, getRequestEvent } from "$app/server";
 import * as v from "valibot";
-import { validateSession, requireAdmin } from "$lib/server/auth/session";
+import { validateSession, requireAdmin, requirePermission } from "$lib/server/auth/session";
 import { db } from "$lib/server/db";
-import { users, customers, cases, phases, worktypes, syncLogs } from "$lib/server/db/schema";
-import { vismaClient } from "$lib/server/integrations/visma";
-import { desc, eq } from "drizzle-orm";
+import { users, syncLogs } from "$lib/server/db/schema";
+import { exportConfirmedEntries } from "$lib/server/services/visma-export";
+import {
+	importCustomers as importVismaCustomers,
+	importProjects as importVismaProjects,
+	importPhases as importVismaPhases,
+	importWorktypes as importVismaWorktypes,
+	importUsers as importVismaUsers,
+	importAll as importAllFromVisma,
+	importHours as importVismaHours
+} from "$lib/server/services/visma-import";
+import {
+	getReconciliationReport as buildReconciliationReport,
+	repushHourEntry as repushVismaHourEntry,
+	relinkHourEntry as relinkVismaHourEntry
+} from "$lib/server/services/visma-reconciliation";
+import {
+	getCorrectionRequests as listCorrectionRequests,
+	approveCorrection as applyCorrection,
+	rejectCorrection as declineCorrection
+} from "$lib/server/services/corrections";
+import { searchEntryHistory as listEntryHistory } from "$lib/server/services/entry-history";
+import { previewImport, applyImportPreview } from "$lib/server/services/visma-import-preview";
+import {
+	getRoundingRules as listRoundingRules,
+	saveRoundingRule as upsertRoundingRule,
+	deleteRoundingRule as removeRoundingRule
+} from "$lib/server/services/rounding-rules";
+import {
+	getCaseBillingSettings as listCaseBillingSettings,
+	updateCaseMinBillableTime,
+	updateCustomerMinBillableTime,
+	getMinBillableTimeHistory as listMinBillableTimeHistory
+} from "$lib/server/services/case-billing";
+import {
+	getCaseManagerSettings as listCaseManagerSettings,
+	getManagerCandidates,
+	setCaseManager as assignCaseManager,
+	setCustomerManager as assignCustomerManager
+} from "$lib/server/services/case-managers";
+import {
+	getCompanyHolidays as listCompanyHolidays,
+	saveCompanyHoliday as upsertCompanyHoliday,
+	deleteCompanyHoliday as removeCompanyHoliday
+} from "$lib/server/services/holidays";
+import { getPublicHolidays as listPublicHolidays } from "$lib/server/holidays";
+import {
+	getPeriodLocks as listPeriodLocks,
+	lockPeriod as createPeriodLock,
+	unlockPeriod as removePeriodLock
+} from "$lib/server/services/period-locks";
+import {
+	updateUserRole as changeUserRole,
+	setUserActive as changeUserActive
+} from "$lib/server/services/users";
+import { runMissingHoursReminders } from "$lib/server/services/reminders";
+import {
+	getJobOverview,
+	getJobRuns as listJobRuns,
+	getJobDefinition,
+	startJob,
+	runJobTask
+} from "$lib/server/jobs";
+import { USER_ROLES } from "$lib/permissions";
+import { and, desc, eq, gt } from "drizzle-orm";
+import { endOfDay, parseISO } from "date-fns";
 
 // Empty schema for functions that don't need input validation
 const EmptySchema = v.object({});
 
+// How far back running syncs are looked for
+const SYNC_PROGRESS_WINDOW_MS = 1000 * 60 * 60 * 6; // 6 hours
+
+// Import schema - full ignores the last sync and fetches everything
+const ImportSchema = v.object({
+	full: v.optional(v.boolean())
+});
+
+const RoundingDirectionSchema = v.picklist(["down", "up", "nearest", "none"]);
+
+/**
+ * Run work by hand under the lock of the background job doing the same work,
+ * so it never runs at the same time as the scheduled run
+ */
+async function runAsJob<T extends object>(
+	jobName: string,
+	userId: number,
+	task: () => Promise<T>,
+	summarize?: (result: T) => string
+) {
+	const run = await runJobTask(jobName, userId, task, summarize);
+	if (!run) {
+		return {
+			success: false as const,
+			error: "This job or one sharing its lock is already running, try again once it has finished"
+		};
+	}
+
+	return { success: true as const, ...run.result };
+}
+
+/**
+ * Get the import job whose lock a manual import takes
+ */
+function importJobName(full?: boolean): string {
+	return full ? "visma-full-import" : "visma-import";
+}
+
 /**
- * Get all users (admin only)
+ * Summarize an import of a single entity for the job run
+ */
+function summarizeImport(entity: string) {
+	return (result: { processed: number }) => `${entity}: ${result.processed}`;
+}
+
+/**
+ * Summarize an import of all entities for the job run
+ */
+function summarizeImportAll(result: { results: Record<string, { processed: number }> }) {
+	return Object.entries(result.results)
+		.map(([entity, r]) => `${entity}: ${r.processed}`)
+		.join(", ");
+}
+
+/**
+ * Get all users - also used to pick users in reports
  */
 export const getUsers = query(EmptySchema, async () => {
 	const event = getRequestEvent();
 	const user = await validateSession(event.cookies);
-	requireAdmin(user);
+	requirePermission(user, "manage-users", "view-reports");
 
 	const result = await db
 		.select({
@@ -25,6 +142,7 @@ export const getUsers = query(EmptySchema, async () => {
 			lastName: users.lastName,
 			role: users.role,
 			active: users.active,
+			deactivatedAt: users.deactivatedAt,
 			vismaGuid: users.vismaGuid,
 			createdAt: users.createdAt
 		})
@@ -34,13 +152,43 @@ export const getUsers = query(EmptySchema, async () => {
 	return result;
 });
 
+/**
+ * Change a user's role
+ */
+export const updateUserRole = command(
+	v.object({ userId: v.number(), role: v.picklist(USER_ROLES) }),
+	async ({ userId, role }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requirePermission(user, "manage-users");
+
+		await changeUserRole(userId, role, user.id);
+		return { success: true };
+	}
+);
+
+/**
+ * Activate or deactivate a user
+ */
+export const setUserActive = command(
+	v.object({ userId: v.number(), active: v.boolean() }),
+	async ({ userId, active }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requirePermission(user, "manage-users");
+
+		await changeUserActive(userId, active, user.id);
+		return { success: true };
+	}
+);
+
 /**
  * Get recent sync logs
  */
 export const getSyncLogs = query(EmptySchema, async () => {
 	const event = getRequestEvent();
 	const user = await validateSession(event.cookies);
-	requireAdmin(user);
+	requirePermission(user, "view-reports");
 
 	const result = await db.select().from(syncLogs).orderBy(desc(syncLogs.startedAt)).limit(50);
 
@@ -48,432 +196,682 @@ export const getSyncLogs = query(EmptySchema, async () => {
 });
 
 /**
- * Import customers from Visma
+ * Get the progress of imports and exports that are still running
  */
-export const importCustomers = command(EmptySchema, async () => {
+export const getSyncProgress = query(EmptySchema, async () => {
 	const event = getRequestEvent();
 	const user = await validateSession(event.cookies);
-	requireAdmin(user);
+	requirePermission(user, "view-reports");
 
-	// Create sync log entry
-	const [log] = await db
-		.insert(syncLogs)
-		.values({
-			type: "visma-import",
-			entityType: "customers",
-			status: "started",
-			startedAt: new Date()
+	// Logs of runs that crashed stay "started", so only look at recent ones
+	const since = new Date(Date.now() - SYNC_PROGRESS_WINDOW_MS);
+
+	return await db
+		.select({
+			id: syncLogs.id,
+			type: syncLogs.type,
+			entityType: syncLogs.entityType,
+			recordsProcessed: syncLogs.recordsProcessed,
+			recordsTotal: syncLogs.recordsTotal,
+			startedAt: syncLogs.startedAt
 		})
-		.returning();
-
-	try {
-		console.log("[ImportCustomers] Starting Visma customer fetch...");
-		const vismaCustomers = await vismaClient.getCustomers();
-		console.log(`[ImportCustomers] Received ${vismaCustomers.length} customers from Visma`);
-		let processed = 0;
-
-		for (const vc of vismaCustomers) {
-			await db
-				.insert(customers)
-				.values({
-					name: vc.name,
-					vismaGuid: vc.guid,
-					active: vc.isActive
-				})
-				.onConflictDoUpdate({
-					target: customers.vismaGuid,
-					set: {
-						name: vc.name,
-						active: vc.isActive,
-						updatedAt: new Date()
-					}
-				});
-			processed++;
-		}
+		.from(syncLogs)
+		.where(and(eq(syncLogs.status, "started"), gt(syncLogs.startedAt, since)))
+		.orderBy(desc(syncLogs.startedAt));
+});
+
+/**
+ * Import customers from Visma, incrementally unless a full import is requested
+ */
+export const importCustomers = command(ImportSchema, async ({ full }) => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requirePermission(user, "manage-sync");
+
+	return await runAsJob(
+		importJobName(full),
+		user.id,
+		() => importVismaCustomers({ full }),
+		summarizeImport("customers")
+	);
+});
+
+/**
+ * Import projects/cases from Visma, incrementally unless a full import is requested
+ */
+export const importProjects = command(ImportSchema, async ({ full }) => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requirePermission(user, "manage-sync");
+
+	return await runAsJob(
+		importJobName(full),
+		user.id,
+		() => importVismaProjects({ full }),
+		summarizeImport("projects")
+	);
+});
+
+/**
+ * Import phases from Visma
+ */
+export const importPhases = command(EmptySchema, async () => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requirePermission(user, "manage-sync");
+
+	return await runAsJob(
+		importJobName(),
+		user.id,
+		() => importVismaPhases(),
+		summarizeImport("phases")
+	);
+});
+
+/**
+ * Import worktypes from Visma
+ */
+export const importWorktypes = command(EmptySchema, async () => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requirePermission(user, "manage-sync");
+
+	return await runAsJob(
+		importJobName(),
+		user.id,
+		() => importVismaWorktypes(),
+		summarizeImport("worktypes")
+	);
+});
 
-		await db
-			.update(syncLogs)
-			.set({
-				status: "completed",
-				recordsProcessed: processed,
-				completedAt: new Date()
-			})
-			.where(eq(syncLogs.id, log.id));
-
-		return { success: true, processed };
-	} catch (error) {
-		await db
-			.update(syncLogs)
-			.set({
-				status: "failed",
-				error: error instanceof Error ? error.message : "Unknown error",
-				completedAt: new Date()
-			})
-			.where(eq(syncLogs.id, log.id));
-
-		throw error;
+/**
+ * Import users from Visma
+ */
+export const importUsers = command(EmptySchema, async () => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requirePermission(user, "manage-sync");
+
+	return await runAsJob(
+		importJobName(),
+		user.id,
+		() => importVismaUsers(),
+		summarizeImport("users")
+	);
+});
+
+/**
+ * Import hours entered directly in Visma, by default those of the last month for all users
+ */
+export const importHours = command(
+	v.object({
+		from: v.optional(v.pipe(v.string(), v.isoDate())),
+		to: v.optional(v.pipe(v.string(), v.isoDate())),
+		userId: v.optional(v.number())
+	}),
+	async ({ from, to, userId }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requirePermission(user, "manage-sync");
+
+		return await runAsJob(
+			"visma-hours-import",
+			user.id,
+			() =>
+				importVismaHours({
+					from: from ? parseISO(from) : undefined,
+					to: to ? endOfDay(parseISO(to)) : undefined,
+					userId
+				}),
+			(result) =>
+				`${result.created} new, ${result.updated} updated, ${result.deactivated} removed`
+		);
 	}
+);
+
+/**
+ * Import all data from Visma in order
+ */
+export const importAll = command(ImportSchema, async ({ full }) => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requirePermission(user, "manage-sync");
+
+	return await runAsJob(
+		importJobName(full),
+		user.id,
+		() => importAllFromVisma({ full }),
+		summarizeImportAll
+	);
 });
 
 /**
- * Import projects/cases from Visma
+ * Fetch everything from Visma and report what a full import would change, without writing
  */
-export const importProjects = command(EmptySchema, async () => {
+export const previewVismaImport = command(EmptySchema, async () => {
 	const event = getRequestEvent();
 	const user = await validateSession(event.cookies);
-	requireAdmin(user);
+	requirePermission(user, "manage-sync");
 
-	const [log] = await db
-		.insert(syncLogs)
-		.values({
-			type: "visma-import",
-			entityType: "cases",
-			status: "started",
-			startedAt: new Date()
-		})
-		.returning();
+	return await previewImport();
+});
 
-	try {
-		const vismaProjects = await vismaClient.getProjects();
-		let processed = 0;
+/**
+ * Write a dry run's data as a full import
+ */
+export const applyVismaImport = command(
+	v.object({ previewId: v.pipe(v.string(), v.minLength(1)) }),
+	async ({ previewId }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requirePermission(user, "manage-sync");
+
+		return await runAsJob(
+			"visma-full-import",
+			user.id,
+			() => applyImportPreview(previewId),
+			summarizeImportAll
+		);
+	}
+);
 
-		// Get customer mapping from database
-		const customerMap = new Map<string, number>();
-		const allCustomers = await db.select().from(customers);
-		for (const c of allCustomers) {
-			if (c.vismaGuid) customerMap.set(c.vismaGuid, c.id);
-		}
+/**
+ * Export approved hour entries to Visma
+ */
+export const exportHours = command(EmptySchema, async () => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requirePermission(user, "manage-sync");
+
+	return await runAsJob(
+		"visma-export",
+		user.id,
+		() => exportConfirmedEntries({ actorId: user.id }),
+		(result) => `Exported ${result.exported} entries (${result.skipped} skipped)`
+	);
+});
 
-		// Log customer count for debugging
-		console.log(`Found ${customerMap.size} customers in database for project mapping`);
-
-		for (const vp of vismaProjects) {
-			// Use customer.guid from the nested customer object (Visma API v1.0 format)
-			const customerGuid = vp.customer?.guid;
-
-			if (!customerGuid) {
-				console.log(`Skipping project ${vp.name} - no customer assigned`);
-				continue;
-			}
-
-			const customerId = customerMap.get(customerGuid);
-			if (!customerId) {
-				console.log(
-					`Skipping project ${vp.name} - customer not in DB: ${vp.customer?.name} (${customerGuid})`
-				);
-				continue;
-			}
-
-			await db
-				.insert(cases)
-				.values({
-					name: vp.name,
-					vismaGuid: vp.guid,
-					customerId,
-					closed: vp.isClosed
-				})
-				.onConflictDoUpdate({
-					target: cases.vismaGuid,
-					set: {
-						name: vp.name,
-						closed: vp.isClosed,
-						updatedAt: new Date()
-					}
-				});
-			processed++;
-		}
+/**
+ * Compare a month of synced hours with Visma for the given users, or all linked users
+ */
+export const getReconciliationReport = query(
+	v.object({
+		month: v.pipe(v.string(), v.regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be yyyy-MM")),
+		userIds: v.array(v.number())
+	}),
+	async ({ month, userIds }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requirePermission(user, "view-reports");
+
+		return await buildReconciliationReport(month, userIds);
+	}
+);
 
-		await db
-			.update(syncLogs)
-			.set({
-				status: "completed",
-				recordsProcessed: processed,
-				completedAt: new Date()
-			})
-			.where(eq(syncLogs.id, log.id));
-
-		return { success: true, processed };
-	} catch (error) {
-		await db
-			.update(syncLogs)
-			.set({
-				status: "failed",
-				error: error instanceof Error ? error.message : "Unknown error",
-				completedAt: new Date()
-			})
-			.where(eq(syncLogs.id, log.id));
-
-		throw error;
+/**
+ * Send a synced hour entry to Visma again, under the export lock so an hours import can't copy it
+ */
+export const repushHourEntry = command(v.object({ entryId: v.number() }), async ({ entryId }) => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requirePermission(user, "manage-sync");
+
+	return await runAsJob(
+		"visma-export",
+		user.id,
+		() => repushVismaHourEntry(entryId),
+		(entry) => `Pushed hour entry ${entry.id} again`
+	);
+});
+
+/**
+ * Link a synced hour entry to another Visma record
+ */
+export const relinkHourEntry = command(
+	v.object({
+		entryId: v.number(),
+		vismaGuid: v.pipe(v.string(), v.minLength(1))
+	}),
+	async ({ entryId, vismaGuid }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requirePermission(user, "manage-sync");
+
+		await relinkVismaHourEntry(entryId, vismaGuid);
+		return { success: true };
+	}
+);
+
+/**
+ * Get correction requests of synced entries, optionally only those with a status
+ */
+export const getCorrectionRequests = query(
+	v.object({
+		status: v.optional(v.picklist(["pending", "approved", "rejected", "failed"]))
+	}),
+	async ({ status }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAdmin(user);
+
+		return await listCorrectionRequests(status);
 	}
+);
+
+// Review schema - an optional note shown to the requester
+const ReviewSchema = v.object({
+	requestId: v.number(),
+	note: v.optional(v.nullable(v.pipe(v.string(), v.maxLength(2000))))
 });
 
 /**
- * Import phases from Visma
+ * Approve a correction request and apply it to Visma, under the export lock so an hours import
+ * doesn't copy work hours whose GUIDs are not stored yet
  */
-export const importPhases = command(EmptySchema, async () => {
+export const approveCorrection = command(ReviewSchema, async ({ requestId, note }) => {
 	const event = getRequestEvent();
 	const user = await validateSession(event.cookies);
 	requireAdmin(user);
 
-	const [log] = await db
-		.insert(syncLogs)
-		.values({
-			type: "visma-import",
-			entityType: "phases",
-			status: "started",
-			startedAt: new Date()
-		})
-		.returning();
-
-	try {
-		// Get case mapping first
-		const caseMap = new Map<string, number>();
-		const allCases = await db.select().from(cases);
-		for (const c of allCases) {
-			if (c.vismaGuid) caseMap.set(c.vismaGuid, c.id);
-		}
+	return await runAsJob(
+		"visma-export",
+		user.id,
+		() => applyCorrection(requestId, user.id, note),
+		(request) => `Applied correction request ${request.id}`
+	);
+});
 
-		console.log(`[ImportPhases] Found ${caseMap.size} cases in database for phase mapping`);
-
-		let processed = 0;
-
-		// Fetch phases project by project to ensure we have projectGuid
-		// This is more reliable than fetching all phases at once
-		for (const [projectGuid, caseId] of caseMap.entries()) {
-			try {
-				const projectPhases = await vismaClient.getPhases(projectGuid);
-
-				for (const vph of projectPhases) {
-					await db
-						.insert(phases)
-						.values({
-							name: vph.name,
-							vismaGuid: vph.guid,
-							caseId,
-							completed: vph.isCompleted,
-							locked: vph.isLocked
-						})
-						.onConflictDoUpdate({
-							target: phases.vismaGuid,
-							set: {
-								name: vph.name,
-								completed: vph.isCompleted,
-								locked: vph.isLocked,
-								updatedAt: new Date()
-							}
-						});
-					processed++;
-				}
-			} catch (error) {
-				console.error(
-					`[ImportPhases] Error fetching phases for project ${projectGuid}:`,
-					error
-				);
-				// Continue with next project
-			}
-		}
+/**
+ * Reject a correction request
+ */
+export const rejectCorrection = command(ReviewSchema, async ({ requestId, note }) => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requireAdmin(user);
 
-		console.log(`[ImportPhases] Processed ${processed} phases from ${caseMap.size} projects`);
-
-		await db
-			.update(syncLogs)
-			.set({
-				status: "completed",
-				recordsProcessed: processed,
-				completedAt: new Date()
-			})
-			.where(eq(syncLogs.id, log.id));
-
-		return { success: true, processed };
-	} catch (error) {
-		await db
-			.update(syncLogs)
-			.set({
-				status: "failed",
-				error: error instanceof Error ? error.message : "Unknown error",
-				completedAt: new Date()
-			})
-			.where(eq(syncLogs.id, log.id));
-
-		throw error;
-	}
+	await declineCorrection(requestId, user.id, note);
+	return { success: true };
 });
 
 /**
- * Import worktypes from Visma
+ * Search the change history of all hour entries, newest first
  */
-export const importWorktypes = command(EmptySchema, async () => {
+export const searchEntryHistory = query(
+	v.object({
+		userId: v.optional(v.number()),
+		actorId: v.optional(v.number()),
+		entryId: v.optional(v.number()),
+		event: v.optional(
+			v.picklist([
+				"create",
+				"update",
+				"delete",
+				"confirm",
+				"unconfirm",
+				"approve",
+				"reject",
+				"sync"
+			])
+		),
+		from: v.optional(v.pipe(v.string(), v.isoDate())),
+		to: v.optional(v.pipe(v.string(), v.isoDate()))
+	}),
+	async ({ userId, actorId, entryId, event: historyEvent, from, to }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAdmin(user);
+
+		return await listEntryHistory({
+			userId,
+			actorId,
+			hourEntryId: entryId,
+			event: historyEvent,
+			from: from ? parseISO(from) : undefined,
+			to: to ? endOfDay(parseISO(to)) : undefined
+		});
+	}
+);
+
+/**
+ * Get all rounding rules
+ */
+export const getRoundingRules = query(EmptySchema, async () => {
 	const event = getRequestEvent();
 	const user = await validateSession(event.cookies);
 	requireAdmin(user);
 
-	const [log] = await db
-		.insert(syncLogs)
-		.values({
-			type: "visma-import",
-			entityType: "worktypes",
-			status: "started",
-			startedAt: new Date()
-		})
-		.returning();
-
-	try {
-		const vismaWorktypes = await vismaClient.getWorkTypes();
-		let processed = 0;
-
-		for (const vwt of vismaWorktypes) {
-			await db
-				.insert(worktypes)
-				.values({
-					name: vwt.name,
-					vismaGuid: vwt.guid,
-					active: vwt.isActive
-				})
-				.onConflictDoUpdate({
-					target: worktypes.vismaGuid,
-					set: {
-						name: vwt.name,
-						active: vwt.isActive,
-						updatedAt: new Date()
-					}
-				});
-			processed++;
-		}
+	return await listRoundingRules();
+});
 
-		await db
-			.update(syncLogs)
-			.set({
-				status: "completed",
-				recordsProcessed: processed,
-				completedAt: new Date()
-			})
-			.where(eq(syncLogs.id, log.id));
-
-		return { success: true, processed };
-	} catch (error) {
-		await db
-			.update(syncLogs)
-			.set({
-				status: "failed",
-				error: error instanceof Error ? error.message : "Unknown error",
-				completedAt: new Date()
-			})
-			.where(eq(syncLogs.id, log.id));
-
-		throw error;
+/**
+ * Create or update the rounding rule for a case, customer or the global default
+ */
+export const saveRoundingRule = command(
+	v.object({
+		customerId: v.optional(v.nullable(v.number())),
+		caseId: v.optional(v.nullable(v.number())),
+		intervalMinutes: v.pipe(v.number(), v.integer(), v.minValue(0), v.maxValue(60)),
+		startDirection: RoundingDirectionSchema,
+		endDirection: RoundingDirectionSchema
+	}),
+	async (input) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAdmin(user);
+
+		const rule = await upsertRoundingRule(input);
+		return { success: true, rule };
+	}
+);
+
+/**
+ * Delete a rounding rule
+ */
+export const deleteRoundingRule = command(
+	v.object({
+		ruleId: v.number()
+	}),
+	async ({ ruleId }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAdmin(user);
+
+		await removeRoundingRule(ruleId);
+		return { success: true };
 	}
+);
+
+/**
+ * Get customers with their cases and minimum billable times
+ */
+export const getCaseBillingSettings = query(EmptySchema, async () => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requireAdmin(user);
+
+	return await listCaseBillingSettings();
 });
 
 /**
- * Import users from Visma
+ * Get recent minimum billable time changes
  */
-export const importUsers = command(EmptySchema, async () => {
+export const getMinBillableTimeHistory = query(EmptySchema, async () => {
 	const event = getRequestEvent();
 	const user = await validateSession(event.cookies);
 	requireAdmin(user);
 
-	const [log] = await db
-		.insert(syncLogs)
-		.values({
-			type: "visma-import",
-			entityType: "users",
-			status: "started",
-			startedAt: new Date()
-		})
-		.returning();
-
-	try {
-		const vismaUsers = await vismaClient.getUsers();
-		let processed = 0;
-
-		for (const vu of vismaUsers) {
-			if (!vu.email) continue;
-
-			await db
-				.insert(users)
-				.values({
-					email: vu.email.toLowerCase(),
-					firstName: vu.firstName,
-					lastName: vu.lastName,
-					vismaGuid: vu.guid,
-					active: vu.isActive
-				})
-				.onConflictDoUpdate({
-					target: users.email,
-					set: {
-						firstName: vu.firstName,
-						lastName: vu.lastName,
-						vismaGuid: vu.guid,
-						active: vu.isActive,
-						updatedAt: new Date()
-					}
-				});
-			processed++;
-		}
+	return await listMinBillableTimeHistory();
+});
 
-		await db
-			.update(syncLogs)
-			.set({
-				status: "completed",
-				recordsProcessed: processed,
-				completedAt: new Date()
-			})
-			.where(eq(syncLogs.id, log.id));
-
-		return { success: true, processed };
-	} catch (error) {
-		await db
-			.update(syncLogs)
-			.set({
-				status: "failed",
-				error: error instanceof Error ? error.message : "Unknown error",
-				completedAt: new Date()
-			})
-			.where(eq(syncLogs.id, log.id));
-
-		throw error;
+/**
+ * Set the minimum billable time of a case
+ */
+export const setCaseMinBillableTime = command(
+	v.object({
+		caseId: v.number(),
+		minutes: v.pipe(v.number(), v.integer(), v.minValue(0))
+	}),
+	async ({ caseId, minutes }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAdmin(user);
+
+		await updateCaseMinBillableTime(caseId, minutes, user.id);
+		return { success: true };
 	}
-});
+);
 
 /**
- * Import all data from Visma in order
+ * Set the default minimum billable time inherited by a customer's new cases
  */
-export const importAll = command(EmptySchema, async () => {
+export const setCustomerMinBillableTime = command(
+	v.object({
+		customerId: v.number(),
+		minutes: v.pipe(v.number(), v.integer(), v.minValue(0))
+	}),
+	async ({ customerId, minutes }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAdmin(user);
+
+		await updateCustomerMinBillableTime(customerId, minutes, user.id);
+		return { success: true };
+	}
+);
+
+/**
+ * Get active customers and cases with their managers, and the users who can manage them
+ */
+export const getCaseManagers = query(EmptySchema, async () => {
 	const event = getRequestEvent();
 	const user = await validateSession(event.cookies);
 	requireAdmin(user);
 
-	const results = {
-		customers: { success: false, processed: 0 },
-		projects: { success: false, processed: 0 },
-		phases: { success: false, processed: 0 },
-		worktypes: { success: false, processed: 0 },
-		users: { success: false, processed: 0 }
-	};
+	const [customers, managers] = await Promise.all([
+		listCaseManagerSettings(),
+		getManagerCandidates()
+	]);
+	return { customers, managers };
+});
 
-	try {
-		// Import in dependency order
-		const customersResult = await importCustomers({});
-		results.customers = { success: true, processed: customersResult.processed };
+/**
+ * Assign a manager to a case, or clear it to use the Visma project owner
+ */
+export const setCaseManager = command(
+	v.object({
+		caseId: v.number(),
+		managerId: v.nullable(v.number())
+	}),
+	async ({ caseId, managerId }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAdmin(user);
+
+		await assignCaseManager(caseId, managerId);
+		return { success: true };
+	}
+);
 
-		const projectsResult = await importProjects({});
-		results.projects = { success: true, processed: projectsResult.processed };
+/**
+ * Assign a manager to a customer's cases that have no manager of their own
+ */
+export const setCustomerManager = command(
+	v.object({
+		customerId: v.number(),
+		managerId: v.nullable(v.number())
+	}),
+	async ({ customerId, managerId }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAdmin(user);
+
+		await assignCustomerManager(customerId, managerId);
+		return { success: true };
+	}
+);
 
-		const phasesResult = await importPhases({});
-		results.phases = { success: true, processed: phasesResult.processed };
+/**
+ * Get company holiday overrides of a year
+ */
+export const getCompanyHolidays = query(
+	v.object({
+		year: v.pipe(v.number(), v.integer())
+	}),
+	async ({ year }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAdmin(user);
+
+		return await listCompanyHolidays(year);
+	}
+);
 
-		const worktypesResult = await importWorktypes({});
-		results.worktypes = { success: true, processed: worktypesResult.processed };
+/**
+ * Get the public holidays of a country for a year
+ */
+export const getPublicHolidays = query(
+	v.object({
+		countryCode: v.pipe(v.string(), v.length(2)),
+		year: v.pipe(v.number(), v.integer())
+	}),
+	async ({ countryCode, year }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAdmin(user);
+
+		return listPublicHolidays(countryCode, year);
+	}
+);
 
-		const usersResult = await importUsers({});
-		results.users = { success: true, processed: usersResult.processed };
+/**
+ * Create or update a company day off, or mark a public holiday as a working day
+ */
+export const saveCompanyHoliday = command(
+	v.object({
+		date: v.pipe(v.string(), v.isoDate()),
+		countryCode: v.optional(v.nullable(v.pipe(v.string(), v.length(2)))),
+		name: v.pipe(v.string(), v.minLength(1), v.maxLength(255)),
+		dayOff: v.boolean()
+	}),
+	async (input) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAdmin(user);
+
+		const holiday = await upsertCompanyHoliday(input);
+		return { success: true, holiday };
+	}
+);
 
-		return { success: true, results };
-	} catch (error) {
-		return {
-			success: false,
-			results,
-			error: error instanceof Error ? error.message : "Unknown error"
-		};
+/**
+ * Delete a company holiday override
+ */
+export const deleteCompanyHoliday = command(
+	v.object({
+		holidayId: v.number()
+	}),
+	async ({ holidayId }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAdmin(user);
+
+		await removeCompanyHoliday(holidayId);
+		return { success: true };
 	}
+);
+
+/**
+ * Get all locked months
+ */
+export const getPeriodLocks = query(EmptySchema, async () => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requireAdmin(user);
+
+	return await listPeriodLocks();
 });
+
+/**
+ * Lock a month for all users or a single user
+ */
+export const lockPeriod = command(
+	v.object({
+		month: v.pipe(v.string(), v.regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be yyyy-MM")),
+		userId: v.optional(v.nullable(v.number())),
+		note: v.optional(v.nullable(v.pipe(v.string(), v.maxLength(2000))))
+	}),
+	async (input) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAdmin(user);
+
+		const lock = await createPeriodLock(input, user.id);
+		return { success: true, lock };
+	}
+);
+
+/**
+ * Unlock a month
+ */
+export const unlockPeriod = command(
+	v.object({
+		lockId: v.number()
+	}),
+	async ({ lockId }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAdmin(user);
+
+		await removePeriodLock(lockId, user.id);
+		return { success: true };
+	}
+);
+
+/**
+ * Send missing hours reminders and the monthly PM report now
+ * Reminders that were already sent are skipped
+ */
+export const sendMissingHoursReminders = command(EmptySchema, async () => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requirePermission(user, "manage-sync");
+
+	return await runAsJob(
+		"missing-hours-reminders",
+		user.id,
+		() => runMissingHoursReminders(),
+		(result) => `Sent ${result.remindersSent} reminders to ${result.usersChecked} users`
+	);
+});
+
+/**
+ * Get background jobs with their last and next run
+ */
+export const getJobs = query(EmptySchema, async () => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requirePermission(user, "manage-sync");
+
+	return await getJobOverview();
+});
+
+/**
+ * Get recent background job runs
+ */
+export const getJobRuns = query(
+	v.object({
+		jobName: v.optional(v.string())
+	}),
+	async ({ jobName }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requirePermission(user, "manage-sync");
+
+		return await listJobRuns(jobName);
+	}
+);
+
+/**
+ * Start a background job now, without waiting for it to finish
+ */
+export const runJobNow = command(
+	v.object({
+		jobName: v.pipe(v.string(), v.minLength(1))
+	}),
+	async ({ jobName }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requirePermission(user, "manage-sync");
+
+		if (!getJobDefinition(jobName)) {
+			return { success: false, error: `Unknown job: ${jobName}` };
+		}
+
+		const started = await startJob(jobName, "manual", { triggeredBy: user.id });
+		if (!started) {
+			return { success: false, error: "Job or one sharing its lock is already running" };
+		}
+
+		return { success: true, runId: started.runId };
+	}
+);
@@ -0,0 +1,58 @@
+import { query, command, getRequestEvent } from "$app/server";
+import * as v from "valibot";
+import { validateSession, requirePermission } from "$lib/server/auth/session";
+import { getActorId, requireWriteAccess } from "$lib/server/auth/impersonation";
+import {
+	getApprovalQueue as listApprovalQueue,
+	approveDay as approveConfirmedDay,
+	rejectDay as rejectConfirmedDay
+} from "$lib/server/services/approvals";
+
+// Empty schema for functions that don't need input validation
+const EmptySchema = v.object({});
+
+// Review schema - a user's day as "yyyy-MM-dd" in their timezone
+const DayReviewSchema = v.object({
+	userId: v.number(),
+	day: v.pipe(v.string(), v.isoDate()),
+	comment: v.optional(v.nullable(v.pipe(v.string(), v.maxLength(2000))))
+});
+
+/**
+ * Get the confirmed days waiting for the current manager's approval
+ */
+export const getApprovalQueue = query(EmptySchema, async () => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requirePermission(user, "approve-hours");
+
+	return await listApprovalQueue(user);
+});
+
+/**
+ * Approve a user's confirmed day
+ */
+export const approveDay = command(DayReviewSchema, async ({ userId, day, comment }) => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requirePermission(user, "approve-hours");
+
+	await requireWriteAccess(user, "approveDay", { userId, day, comment });
+
+	const review = await approveConfirmedDay(user, userId, day, comment, getActorId(user));
+	return { success: true, review };
+});
+
+/**
+ * Reject a user's confirmed day, sending it back to draft
+ */
+export const rejectDay = command(DayReviewSchema, async ({ userId, day, comment }) => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requirePermission(user, "approve-hours");
+
+	await requireWriteAccess(user, "rejectDay", { userId, day, comment });
+
+	const review = await rejectConfirmedDay(user, userId, day, comment ?? "", getActorId(user));
+	return { success: true, review };
+});
@@ -5,10 +5,14 @@ import {
 	createSession,
 	invalidateSession,
 	validateSession,
+	requireAuth,
 	type SessionUser
 } from "$lib/server/auth/session";
+import { requireWriteAccess } from "$lib/server/auth/impersonation";
 import { db } from "$lib/server/db";
 import { users } from "$lib/server/db/schema";
+import { updateUserProfile } from "$lib/server/services/profile";
+import { DEFAULT_COUNTRY_CODE } from "$lib/server/holidays";
 
 // Empty schema for functions that don't need input validation
 const EmptySchema = v.object({});
@@ -60,7 +64,9 @@ export const loginWithLdap = command(
 				email: user.email,
 				firstName: user.firstName,
 				lastName: user.lastName,
-				role: user.role
+				role: user.role,
+				timezone: user.timezone,
+				countryCode: user.countryCode || DEFAULT_COUNTRY_CODE
 			}
 		};
 	}
@@ -91,3 +97,23 @@ export const isAuthenticated = query(EmptySchema, async (): Promise<boolean> =>
 	const user = await validateSession(event.cookies);
 	return user !== null;
 });
+
+/**
+ * Update the current user's profile settings
+ */
+export const updateProfile = command(
+	v.object({
+		timezone: v.optional(v.pipe(v.string(), v.minLength(1))),
+		countryCode: v.optional(v.pipe(v.string(), v.length(2)))
+	}),
+	async ({ timezone, countryCode }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAuth(user);
+
+		await requireWriteAccess(user, "updateProfile", { timezone, countryCode });
+
+		await updateUserProfile(user.id, { timezone, countryCode });
+		return { success: true };
+	}
+);
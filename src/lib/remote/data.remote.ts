@@ -3,6 +3,7 @@ import * as v from "valibot";
 import { validateSession, requireAuth } from "$lib/server/auth/session";
 import { db } from "$lib/server/db";
 import { customers, cases, phases, worktypes } from "$lib/server/db/schema";
+import { getSupportedCountries } from "$lib/server/holidays";
 import { eq, and, asc } from "drizzle-orm";
 
 // Empty schema for functions that don't need input validation
@@ -231,3 +232,14 @@ export const searchPhases = query(
 			}));
 	}
 );
+
+/**
+ * Get the country codes that have a holiday calendar
+ */
+export const getHolidayCountries = query(EmptySchema, async () => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requireAuth(user);
+
+	return getSupportedCountries();
+});
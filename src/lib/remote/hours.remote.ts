@@ -1,6 +1,11 @@
 import { query, command, getRequestEvent } from "$app/server";
 import * as v from "valibot";
-import { validateSession, requireAuth } from "$lib/server/auth/session";
+import { validateSession, requireAuth, type SessionUser } from "$lib/server/auth/session";
+import {
+	getActorId,
+	requireWriteAccess,
+	ReadOnlySessionError
+} from "$lib/server/auth/impersonation";
 import {
 	createHourEntry,
 	updateHourEntry,
@@ -8,11 +13,30 @@ import {
 	getHourEntriesForMonth,
 	getHourEntriesForDay,
 	confirmDay,
+	unconfirmDay,
 	copyPreviousConfirmedDay,
+	getRunningTimer as findRunningTimer,
+	startTimer as startHourTimer,
+	stopTimer as stopHourTimer,
 	calculateTotalMinutes,
 	formatDuration,
-	HourEntryError
+	HourEntryError,
+	ErrorCodes
 } from "$lib/server/services/hour-entries";
+import { getDayBillingPreview } from "$lib/server/services/billing";
+import {
+	requestCorrection as createCorrectionRequest,
+	getPendingCorrectionEntryIds
+} from "$lib/server/services/corrections";
+import { getHolidays } from "$lib/server/services/holidays";
+import { getLockedMonths } from "$lib/server/services/period-locks";
+import { getLatestDayReview } from "$lib/server/services/approvals";
+import { getEntryHistory as listEntryHistory } from "$lib/server/services/entry-history";
+import { addDays, format, parseISO } from "date-fns";
+import { fromZonedTime, formatInTimeZone } from "date-fns-tz";
+
+// Empty schema for functions that don't need input validation
+const EmptySchema = v.object({});
 
 // Date schema - accepts ISO string or Date
 const DateSchema = v.pipe(
@@ -20,6 +44,30 @@ const DateSchema = v.pipe(
 	v.transform((val) => (typeof val === "string" ? new Date(val) : val))
 );
 
+// Day schema - a calendar day as "yyyy-MM-dd", interpreted in the user's timezone
+const DaySchema = v.pipe(v.string(), v.isoDate());
+
+/**
+ * Convert a calendar day to the moment it starts in the given timezone
+ */
+function startOfDayIn(day: string, timeZone: string): Date {
+	return fromZonedTime(day, timeZone);
+}
+
+/**
+ * Check that the session may change hours, reporting a read-only session as an hour entry error
+ */
+async function authorizeChange(user: SessionUser, action: string, details?: unknown) {
+	try {
+		await requireWriteAccess(user, action, details);
+	} catch (error) {
+		if (error instanceof ReadOnlySessionError) {
+			throw new HourEntryError(error.message, ErrorCodes.READ_ONLY_SESSION);
+		}
+		throw error;
+	}
+}
+
 /**
  * Get hour entries for a specific month
  */
@@ -33,12 +81,12 @@ export const getMonthEntries = query(
 		const user = await validateSession(event.cookies);
 		requireAuth(user);
 
-		const entries = await getHourEntriesForMonth(user.id, year, month);
+		const entries = await getHourEntriesForMonth(user.id, year, month, "asc", user.timezone);
 
 		// Group by date
 		const byDate = new Map<string, typeof entries>();
 		for (const entry of entries) {
-			const dateKey = entry.startTime.toISOString().split("T")[0];
+			const dateKey = formatInTimeZone(entry.startTime, user.timezone, "yyyy-MM-dd");
 			if (!byDate.has(dateKey)) {
 				byDate.set(dateKey, []);
 			}
@@ -49,7 +97,9 @@ export const getMonthEntries = query(
 		const days = Array.from(byDate.entries()).map(([date, dayEntries]) => {
 			const totalMinutes = calculateTotalMinutes(dayEntries);
 			const hasUnconfirmed = dayEntries.some((e) => e.status === "draft");
-			const allConfirmed = dayEntries.every((e) => e.status !== "draft");
+			const ownEntries = dayEntries.filter((e) => e.source === "inside");
+			const allConfirmed =
+				ownEntries.length > 0 && ownEntries.every((e) => e.status !== "draft");
 
 			return {
 				date,
@@ -75,36 +125,42 @@ export const getMonthEntries = query(
  */
 export const getWeekStatus = query(
 	v.object({
-		weekStart: DateSchema
+		weekStart: DaySchema
 	}),
-	async ({ weekStart }) => {
+	async ({ weekStart: weekStartDay }) => {
 		const event = getRequestEvent();
 		const user = await validateSession(event.cookies);
 		requireAuth(user);
 
 		// Get entries for the week (7 days from weekStart)
-		const weekEnd = new Date(weekStart);
-		weekEnd.setDate(weekEnd.getDate() + 6);
+		const weekStart = parseISO(weekStartDay);
+		const weekEnd = addDays(weekStart, 6);
 
 		// Fetch month data (handles most cases, weeks rarely span 3 months)
 		const month = weekStart.getMonth() + 1;
 		const year = weekStart.getFullYear();
-		const entries = await getHourEntriesForMonth(user.id, year, month);
+		const entries = await getHourEntriesForMonth(user.id, year, month, "asc", user.timezone);
 
 		// If week spans two months, fetch the other month too
 		const endMonth = weekEnd.getMonth() + 1;
 		const endYear = weekEnd.getFullYear();
 		if (month !== endMonth || year !== endYear) {
-			const moreEntries = await getHourEntriesForMonth(user.id, endYear, endMonth);
+			const moreEntries = await getHourEntriesForMonth(
+				user.id,
+				endYear,
+				endMonth,
+				"asc",
+				user.timezone
+			);
 			entries.push(...moreEntries);
 		}
 
-		// Group by date and check confirmed status
+		// Group by date in the user's timezone and check confirmed status
 		const confirmedDays: string[] = [];
 		const byDate = new Map<string, typeof entries>();
 
 		for (const entry of entries) {
-			const dateKey = entry.startTime.toISOString().split("T")[0];
+			const dateKey = formatInTimeZone(entry.startTime, user.timezone, "yyyy-MM-dd");
 			if (!byDate.has(dateKey)) {
 				byDate.set(dateKey, []);
 			}
@@ -112,12 +168,26 @@ export const getWeekStatus = query(
 		}
 
 		for (const [date, dayEntries] of byDate) {
-			if (dayEntries.length > 0 && dayEntries.every((e) => e.status !== "draft")) {
+			const ownEntries = dayEntries.filter((e) => e.source === "inside");
+			if (ownEntries.length > 0 && ownEntries.every((e) => e.status !== "draft")) {
 				confirmedDays.push(date);
 			}
 		}
 
-		return { confirmedDays };
+		// Days off in the user's country, including company holidays
+		const holidays = await getHolidays(
+			user.countryCode,
+			weekStartDay,
+			format(weekEnd, "yyyy-MM-dd")
+		);
+
+		// Months closed by an admin, where entries can no longer be changed
+		const lockedMonths = await getLockedMonths(user.id, [
+			format(weekStart, "yyyy-MM"),
+			format(weekEnd, "yyyy-MM")
+		]);
+
+		return { confirmedDays, holidays, lockedMonths };
 	}
 );
 
@@ -126,22 +196,63 @@ export const getWeekStatus = query(
  */
 export const getDayEntries = query(
 	v.object({
-		date: DateSchema
+		date: DaySchema
 	}),
 	async ({ date }) => {
 		const event = getRequestEvent();
 		const user = await validateSession(event.cookies);
 		requireAuth(user);
 
-		const entries = await getHourEntriesForDay(user.id, date);
+		const entries = await getHourEntriesForDay(
+			user.id,
+			startOfDayIn(date, user.timezone),
+			user.timezone
+		);
 		const totalMinutes = calculateTotalMinutes(entries);
+		// Hours from Visma count towards the total but don't confirm the day
+		const ownEntries = entries.filter((e) => e.source === "inside");
+		const hasUnconfirmed = entries.some((e) => e.status === "draft");
+
+		// A rejection stays visible until the day is confirmed again
+		const review = hasUnconfirmed ? await getLatestDayReview(user.id, date) : null;
 
 		return {
 			entries,
 			totalMinutes,
 			totalFormatted: formatDuration(totalMinutes),
-			hasUnconfirmed: entries.some((e) => e.status === "draft"),
-			allConfirmed: entries.length > 0 && entries.every((e) => e.status !== "draft")
+			correctionEntryIds: await getPendingCorrectionEntryIds(
+				entries.filter((e) => e.status === "synced").map((e) => e.id)
+			),
+			hasUnconfirmed,
+			allConfirmed: ownEntries.length > 0 && ownEntries.every((e) => e.status !== "draft"),
+			awaitingApproval: ownEntries.some((e) => e.status === "confirmed"),
+			rejection: review?.decision === "rejected" ? review : null,
+			// A confirmed day can be reverted to draft until it is exported
+			canUnconfirm:
+				ownEntries.some((e) => e.status === "confirmed" || e.status === "approved") &&
+				ownEntries.every((e) => e.status !== "synced")
+		};
+	}
+);
+
+/**
+ * Preview the rounded and minimum billing entries for a day before it is confirmed
+ */
+export const getBillingPreview = query(
+	v.object({
+		date: DaySchema
+	}),
+	async ({ date }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAuth(user);
+
+		const preview = await getDayBillingPreview(user.id, startOfDayIn(date, user.timezone));
+
+		return {
+			...preview,
+			loggedFormatted: formatDuration(preview.loggedMinutes),
+			billedFormatted: formatDuration(preview.billedMinutes)
 		};
 	}
 );
@@ -164,7 +275,8 @@ export const createEntry = command(
 		requireAuth(user);
 
 		try {
-			const entry = await createHourEntry(user.id, input);
+			await authorizeChange(user, "createEntry", input);
+			const entry = await createHourEntry(user.id, input, getActorId(user));
 			return { success: true, entry };
 		} catch (error) {
 			if (error instanceof HourEntryError) {
@@ -194,7 +306,8 @@ export const updateEntry = command(
 		requireAuth(user);
 
 		try {
-			const entry = await updateHourEntry(user.id, entryId, input);
+			await authorizeChange(user, "updateEntry", { entryId, ...input });
+			const entry = await updateHourEntry(user.id, entryId, input, getActorId(user));
 			return { success: true, entry };
 		} catch (error) {
 			if (error instanceof HourEntryError) {
@@ -218,7 +331,8 @@ export const deleteEntry = command(
 		requireAuth(user);
 
 		try {
-			await deleteHourEntry(user.id, entryId);
+			await authorizeChange(user, "deleteEntry", { entryId });
+			await deleteHourEntry(user.id, entryId, getActorId(user));
 			return { success: true };
 		} catch (error) {
 			if (error instanceof HourEntryError) {
@@ -234,7 +348,7 @@ export const deleteEntry = command(
  */
 export const confirmDayEntries = command(
 	v.object({
-		date: DateSchema
+		date: DaySchema
 	}),
 	async ({ date }) => {
 		const event = getRequestEvent();
@@ -242,7 +356,12 @@ export const confirmDayEntries = command(
 		requireAuth(user);
 
 		try {
-			const entries = await confirmDay(user.id, date);
+			await authorizeChange(user, "confirmDayEntries", { date });
+			const entries = await confirmDay(
+				user.id,
+				startOfDayIn(date, user.timezone),
+				getActorId(user)
+			);
 			return { success: true, entries };
 		} catch (error) {
 			if (error instanceof HourEntryError) {
@@ -259,12 +378,41 @@ export const confirmDayEntries = command(
 	}
 );
 
+/**
+ * Revert a confirmed day back to draft before it is exported
+ */
+export const unconfirmDayEntries = command(
+	v.object({
+		date: DaySchema
+	}),
+	async ({ date }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAuth(user);
+
+		try {
+			await authorizeChange(user, "unconfirmDayEntries", { date });
+			const entries = await unconfirmDay(
+				user.id,
+				startOfDayIn(date, user.timezone),
+				getActorId(user)
+			);
+			return { success: true, entries };
+		} catch (error) {
+			if (error instanceof HourEntryError) {
+				return { success: false, error: error.message, code: error.code };
+			}
+			throw error;
+		}
+	}
+);
+
 /**
  * Copy entries from the most recent confirmed day to the target date
  */
 export const copyPreviousDay = command(
 	v.object({
-		targetDate: DateSchema
+		targetDate: DaySchema
 	}),
 	async ({ targetDate }) => {
 		const event = getRequestEvent();
@@ -272,7 +420,12 @@ export const copyPreviousDay = command(
 		requireAuth(user);
 
 		try {
-			const entries = await copyPreviousConfirmedDay(user.id, targetDate);
+			await authorizeChange(user, "copyPreviousDay", { targetDate });
+			const entries = await copyPreviousConfirmedDay(
+				user.id,
+				startOfDayIn(targetDate, user.timezone),
+				getActorId(user)
+			);
 			return { success: true, entries, count: entries.length };
 		} catch (error) {
 			if (error instanceof HourEntryError) {
@@ -282,3 +435,104 @@ export const copyPreviousDay = command(
 		}
 	}
 );
+
+/**
+ * Get the running timer of the current user
+ */
+export const getRunningTimer = query(EmptySchema, async () => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requireAuth(user);
+
+	return findRunningTimer(user.id);
+});
+
+/**
+ * Start a timer, stopping the previous one if it is still running
+ */
+export const startTimer = command(
+	v.object({
+		description: v.optional(v.nullable(v.string())),
+		phaseId: v.optional(v.nullable(v.number())),
+		worktypeId: v.optional(v.nullable(v.number()))
+	}),
+	async (input) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAuth(user);
+
+		try {
+			await authorizeChange(user, "startTimer", input);
+			const entry = await startHourTimer(user.id, input, getActorId(user));
+			return { success: true, entry };
+		} catch (error) {
+			if (error instanceof HourEntryError) {
+				return { success: false, error: error.message, code: error.code };
+			}
+			throw error;
+		}
+	}
+);
+
+/**
+ * Stop the running timer
+ */
+export const stopTimer = command(EmptySchema, async () => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requireAuth(user);
+
+	try {
+		await authorizeChange(user, "stopTimer");
+		const entry = await stopHourTimer(user.id, new Date(), getActorId(user));
+		return { success: true, entry };
+	} catch (error) {
+		if (error instanceof HourEntryError) {
+			return { success: false, error: error.message, code: error.code };
+		}
+		throw error;
+	}
+});
+
+/**
+ * Request a correction of an entry already exported to Visma, applied once an admin approves
+ */
+export const requestCorrection = command(
+	v.object({
+		hourEntryId: v.number(),
+		action: v.picklist(["update", "delete"]),
+		startTime: v.optional(DateSchema),
+		endTime: v.optional(DateSchema),
+		description: v.optional(v.nullable(v.string())),
+		phaseId: v.optional(v.number()),
+		worktypeId: v.optional(v.number()),
+		reason: v.pipe(v.string(), v.maxLength(2000))
+	}),
+	async (input) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAuth(user);
+
+		try {
+			await authorizeChange(user, "requestCorrection", input);
+			const request = await createCorrectionRequest(user.id, input, getActorId(user));
+			return { success: true, request };
+		} catch (error) {
+			if (error instanceof HourEntryError) {
+				return { success: false, error: error.message, code: error.code };
+			}
+			throw error;
+		}
+	}
+);
+
+/**
+ * Get the change history of one of the current user's entries
+ */
+export const getEntryHistory = query(v.object({ entryId: v.number() }), async ({ entryId }) => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requireAuth(user);
+
+	return listEntryHistory(user.id, entryId);
+});
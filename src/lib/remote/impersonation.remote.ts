@@ -0,0 +1,50 @@
+import { command, getRequestEvent } from "$app/server";
+import * as v from "valibot";
+import { validateSession, requireAdmin, requireAuth } from "$lib/server/auth/session";
+import {
+	startImpersonation as beginImpersonation,
+	stopImpersonation as endImpersonation,
+	setImpersonationEditing as changeImpersonationEditing
+} from "$lib/server/auth/impersonation";
+
+// Empty schema for functions that don't need input validation
+const EmptySchema = v.object({});
+
+/**
+ * Start viewing the app as another user (admin only)
+ */
+export const startImpersonation = command(v.object({ userId: v.number() }), async ({ userId }) => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requireAdmin(user);
+
+	await beginImpersonation(event.cookies, user, userId);
+	return { success: true };
+});
+
+/**
+ * Stop viewing as another user and return to the admin's own view
+ */
+export const stopImpersonation = command(EmptySchema, async () => {
+	const event = getRequestEvent();
+	const user = await validateSession(event.cookies);
+	requireAuth(user);
+
+	await endImpersonation(event.cookies, user);
+	return { success: true };
+});
+
+/**
+ * Allow or disallow changes while viewing as another user
+ */
+export const setImpersonationEditing = command(
+	v.object({ canEdit: v.boolean() }),
+	async ({ canEdit }) => {
+		const event = getRequestEvent();
+		const user = await validateSession(event.cookies);
+		requireAuth(user);
+
+		await changeImpersonationEditing(event.cookies, user, canEdit);
+		return { success: true };
+	}
+);
@@ -1,16 +1,29 @@
 // Re-export all remote functions for easy importing
 
-export { loginWithLdap, logout, getCurrentUser, isAuthenticated } from "./auth.remote";
+export {
+	loginWithLdap,
+	logout,
+	getCurrentUser,
+	isAuthenticated,
+	updateProfile
+} from "./auth.remote";
 
 export {
 	getMonthEntries,
 	getWeekStatus,
 	getDayEntries,
+	getBillingPreview,
 	createEntry,
 	updateEntry,
 	deleteEntry,
 	confirmDayEntries,
-	copyPreviousDay
+	unconfirmDayEntries,
+	copyPreviousDay,
+	getRunningTimer,
+	startTimer,
+	stopTimer,
+	requestCorrection,
+	getEntryHistory
 } from "./hours.remote";
 
 export {
@@ -19,16 +32,60 @@ export {
 	getPhases,
 	getPhasesWithHierarchy,
 	getWorktypes,
-	searchPhases
+	searchPhases,
+	getHolidayCountries
 } from "./data.remote";
 
+export { getApprovalQueue, approveDay, rejectDay } from "./approvals.remote";
+
+export {
+	startImpersonation,
+	stopImpersonation,
+	setImpersonationEditing
+} from "./impersonation.remote";
+
 export {
 	getUsers,
+	updateUserRole,
+	setUserActive,
 	getSyncLogs,
+	getSyncProgress,
 	importCustomers,
 	importProjects,
 	importPhases,
 	importWorktypes,
 	importUsers,
-	importAll
+	importHours,
+	importAll,
+	previewVismaImport,
+	applyVismaImport,
+	exportHours,
+	getReconciliationReport,
+	repushHourEntry,
+	relinkHourEntry,
+	getCorrectionRequests,
+	approveCorrection,
+	rejectCorrection,
+	searchEntryHistory,
+	getRoundingRules,
+	saveRoundingRule,
+	deleteRoundingRule,
+	getCaseBillingSettings,
+	getMinBillableTimeHistory,
+	setCaseMinBillableTime,
+	setCustomerMinBillableTime,
+	getCaseManagers,
+	setCaseManager,
+	setCustomerManager,
+	getCompanyHolidays,
+	getPublicHolidays,
+	saveCompanyHoliday,
+	deleteCompanyHoliday,
+	getPeriodLocks,
+	lockPeriod,
+	unlockPeriod,
+	sendMissingHoursReminders,
+	getJobs,
+	getJobRuns,
+	runJobNow
 } from "./admin.remote";
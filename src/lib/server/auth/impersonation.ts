@@ -0,0 +1,151 @@
+import { db } from "$lib/server/db";
+import { sessions, users, impersonationLogs } from "$lib/server/db/schema";
+import { eq } from "drizzle-orm";
+import type { Cookies } from "@sveltejs/kit";
+import { getSessionToken, type SessionUser } from "./session";
+
+/**
+ * Thrown for changes attempted while an admin views as a user without allowing edits
+ */
+export class ReadOnlySessionError extends Error {
+	constructor() {
+		super("Viewing as this user is read-only. Allow edits in the banner to make changes.");
+		this.name = "ReadOnlySessionError";
+	}
+}
+
+/**
+ * Record an action taken while an admin views the app as another user
+ */
+async function logImpersonation(
+	adminId: number,
+	userId: number,
+	action: string,
+	details?: unknown
+): Promise<void> {
+	await db.insert(impersonationLogs).values({
+		adminId,
+		userId,
+		action,
+		details: details === undefined ? null : JSON.stringify(details)
+	});
+
+	console.log(`[Impersonation] Admin ${adminId} as user ${userId}: ${action}`);
+}
+
+/**
+ * Point the current session at another user
+ */
+async function updateSession(
+	cookies: Cookies,
+	values: { impersonatedUserId: number | null; impersonationCanEdit: boolean }
+): Promise<void> {
+	const token = getSessionToken(cookies);
+	if (!token) {
+		throw new Error("Unauthorized");
+	}
+
+	await db.update(sessions).set(values).where(eq(sessions.token, token));
+}
+
+/**
+ * Start viewing the app as another user, read-only until edits are enabled
+ */
+export async function startImpersonation(
+	cookies: Cookies,
+	admin: SessionUser,
+	userId: number
+): Promise<void> {
+	if (admin.role !== "admin" || admin.impersonator) {
+		throw new Error("Forbidden");
+	}
+	if (userId === admin.id) {
+		throw new Error("You cannot view as yourself");
+	}
+
+	const [target] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+
+	if (!target || !target.active) {
+		throw new Error("User not found");
+	}
+	if (target.role === "admin") {
+		throw new Error("You cannot view as another admin");
+	}
+
+	await updateSession(cookies, { impersonatedUserId: userId, impersonationCanEdit: false });
+	await logImpersonation(admin.id, userId, "start");
+}
+
+/**
+ * Return to the admin's own view
+ */
+export async function stopImpersonation(cookies: Cookies, user: SessionUser): Promise<void> {
+	if (!user.impersonator) {
+		throw new Error("Not viewing as another user");
+	}
+
+	await updateSession(cookies, { impersonatedUserId: null, impersonationCanEdit: false });
+	await logImpersonation(user.impersonator.id, user.id, "stop");
+}
+
+/**
+ * Allow or disallow changes made as the impersonated user
+ */
+export async function setImpersonationEditing(
+	cookies: Cookies,
+	user: SessionUser,
+	canEdit: boolean
+): Promise<void> {
+	if (!user.impersonator) {
+		throw new Error("Not viewing as another user");
+	}
+
+	await updateSession(cookies, { impersonatedUserId: user.id, impersonationCanEdit: canEdit });
+	await logImpersonation(
+		user.impersonator.id,
+		user.id,
+		canEdit ? "enable-edits" : "disable-edits"
+	);
+}
+
+/**
+ * Get the user who actually acts - the admin while viewing as someone else
+ */
+export function getActorId(user: SessionUser): number {
+	return user.impersonator?.id ?? user.id;
+}
+
+/**
+ * Check whether the session only allows viewing
+ */
+export function isReadOnlySession(user: SessionUser): boolean {
+	return !!user.impersonator && !user.impersonator.canEdit;
+}
+
+/**
+ * Log a change made while an admin views as the user - does nothing in a normal session
+ */
+export async function logImpersonatedAction(
+	user: SessionUser,
+	action: string,
+	details?: unknown
+): Promise<void> {
+	if (!user.impersonator) return;
+
+	await logImpersonation(user.impersonator.id, user.id, action, details);
+}
+
+/**
+ * Require a session that may change data - throws error while viewing as a user read-only
+ */
+export async function requireWriteAccess(
+	user: SessionUser,
+	action: string,
+	details?: unknown
+): Promise<void> {
+	if (isReadOnlySession(user)) {
+		throw new ReadOnlySessionError();
+	}
+
+	await logImpersonatedAction(user, action, details);
+}
@@ -6,5 +6,16 @@ export {
 	deleteExpiredSessions,
 	requireAuth,
 	requireAdmin,
+	requirePermission,
 	type SessionUser
 } from "./session";
+export {
+	startImpersonation,
+	stopImpersonation,
+	setImpersonationEditing,
+	getActorId,
+	isReadOnlySession,
+	logImpersonatedAction,
+	requireWriteAccess,
+	ReadOnlySessionError
+} from "./impersonation";
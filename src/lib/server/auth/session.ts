@@ -3,6 +3,8 @@ import { db } from "$lib/server/db";
 import { sessions, users, type User } from "$lib/server/db/schema";
 import { eq, and, gt, lt } from "drizzle-orm";
 import type { Cookies } from "@sveltejs/kit";
+import { DEFAULT_COUNTRY_CODE } from "$lib/server/holidays";
+import { hasPermission, type Permission } from "$lib/permissions";
 
 const SESSION_COOKIE_NAME = "session";
 const SESSION_DURATION_MS = 1000 * 60 * 60 * 8; // 8 hours
@@ -13,6 +15,37 @@ export interface SessionUser {
 	firstName: string;
 	lastName: string;
 	role: string;
+	timezone: string;
+	countryCode: string;
+	// Set while an admin views the app as this user
+	impersonator?: {
+		id: number;
+		firstName: string;
+		lastName: string;
+		canEdit: boolean;
+	};
+}
+
+/**
+ * Get the session token from the cookie
+ */
+export function getSessionToken(cookies: Cookies): string | undefined {
+	return cookies.get(SESSION_COOKIE_NAME);
+}
+
+/**
+ * Map a user row to the user attached to requests
+ */
+function toSessionUser(user: User): SessionUser {
+	return {
+		id: user.id,
+		email: user.email,
+		firstName: user.firstName,
+		lastName: user.lastName,
+		role: user.role,
+		timezone: user.timezone,
+		countryCode: user.countryCode || DEFAULT_COUNTRY_CODE
+	};
 }
 
 /**
@@ -41,9 +74,10 @@ export async function createSession(userId: number, cookies: Cookies): Promise<s
 
 /**
  * Validate a session token and return the user if valid
+ * While an admin views as another user, that user is returned with the admin as impersonator
  */
 export async function validateSession(cookies: Cookies): Promise<SessionUser | null> {
-	const token = cookies.get(SESSION_COOKIE_NAME);
+	const token = getSessionToken(cookies);
 	if (!token) return null;
 
 	const result = await db
@@ -58,24 +92,39 @@ export async function validateSession(cookies: Cookies): Promise<SessionUser | n
 
 	if (result.length === 0) return null;
 
-	const { user } = result[0];
+	const { session, user } = result[0];
 
 	if (!user.active) return null;
 
-	return {
-		id: user.id,
-		email: user.email,
-		firstName: user.firstName,
-		lastName: user.lastName,
-		role: user.role
-	};
+	// Only admins can view as someone else, so a demoted admin falls back to their own view
+	if (session.impersonatedUserId && user.role === "admin") {
+		const [target] = await db
+			.select()
+			.from(users)
+			.where(eq(users.id, session.impersonatedUserId))
+			.limit(1);
+
+		if (target?.active) {
+			return {
+				...toSessionUser(target),
+				impersonator: {
+					id: user.id,
+					firstName: user.firstName,
+					lastName: user.lastName,
+					canEdit: session.impersonationCanEdit
+				}
+			};
+		}
+	}
+
+	return toSessionUser(user);
 }
 
 /**
  * Invalidate a session (logout)
  */
 export async function invalidateSession(cookies: Cookies): Promise<void> {
-	const token = cookies.get(SESSION_COOKIE_NAME);
+	const token = getSessionToken(cookies);
 	if (!token) return;
 
 	await db.delete(sessions).where(eq(sessions.token, token));
@@ -109,3 +158,16 @@ export function requireAdmin(user: SessionUser | null): asserts user is SessionU
 		throw new Error("Forbidden");
 	}
 }
+
+/**
+ * Require a permission - throws error unless the user's role grants one of the given permissions
+ */
+export function requirePermission(
+	user: SessionUser | null,
+	...permissions: [Permission, ...Permission[]]
+): asserts user is SessionUser {
+	requireAuth(user);
+	if (!permissions.some((permission) => hasPermission(user.role, permission))) {
+		throw new Error("Forbidden");
+	}
+}
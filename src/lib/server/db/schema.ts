@@ -6,7 +6,10 @@ import {
 	text,
 	boolean,
 	timestamp,
-	index
+	date,
+	index,
+	uniqueIndex,
+	type AnyPgColumn
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
@@ -20,9 +23,13 @@ export const users = pgTable(
 		lastName: varchar("last_name", { length: 100 }).notNull(),
 		ldapDn: varchar("ldap_dn", { length: 500 }),
 		vismaGuid: varchar("visma_guid", { length: 100 }),
-		role: varchar("role", { length: 20 }).notNull().default("user"),
+		role: varchar("role", { length: 20 }).notNull().default("user"), // One of USER_ROLES in $lib/permissions
 		countryCode: varchar("country_code", { length: 10 }).default("FI"),
+		timezone: varchar("timezone", { length: 64 }).notNull().default("Europe/Helsinki"),
 		active: boolean("active").notNull().default(true),
+		// Set when an admin deactivates the user - keeps Visma imports from reactivating them
+		deactivatedBy: integer("deactivated_by").references((): AnyPgColumn => users.id),
+		deactivatedAt: timestamp("deactivated_at"),
 		createdAt: timestamp("created_at").defaultNow().notNull(),
 		updatedAt: timestamp("updated_at").defaultNow().notNull()
 	},
@@ -42,6 +49,9 @@ export const sessions = pgTable(
 			.references(() => users.id)
 			.notNull(),
 		expiresAt: timestamp("expires_at").notNull(),
+		// Set while an admin views the app as another user
+		impersonatedUserId: integer("impersonated_user_id").references(() => users.id),
+		impersonationCanEdit: boolean("impersonation_can_edit").notNull().default(false),
 		createdAt: timestamp("created_at").defaultNow().notNull()
 	},
 	(table) => [
@@ -58,10 +68,15 @@ export const customers = pgTable(
 		name: varchar("name", { length: 255 }).notNull(),
 		vismaGuid: varchar("visma_guid", { length: 100 }).unique(),
 		active: boolean("active").notNull().default(true),
+		defaultMinBillableTimeInMin: integer("default_min_billable_time_in_min").default(0), // inherited by new cases on import
+		managerId: integer("manager_id").references(() => users.id), // manages cases without a manager of their own
 		createdAt: timestamp("created_at").defaultNow().notNull(),
 		updatedAt: timestamp("updated_at").defaultNow().notNull()
 	},
-	(table) => [index("customers_visma_guid_idx").on(table.vismaGuid)]
+	(table) => [
+		index("customers_visma_guid_idx").on(table.vismaGuid),
+		index("customers_manager_id_idx").on(table.managerId)
+	]
 );
 
 // Cases/Projects table - synced from Visma
@@ -75,13 +90,16 @@ export const cases = pgTable(
 			.notNull(),
 		vismaGuid: varchar("visma_guid", { length: 100 }).unique(),
 		closed: boolean("closed").notNull().default(false),
+		ownerVismaGuid: varchar("owner_visma_guid", { length: 100 }), // project owner in Visma
+		managerId: integer("manager_id").references(() => users.id), // set by an admin, wins over the Visma owner
 		minBillableTimeInMin: integer("min_billable_time_in_min").default(0),
 		createdAt: timestamp("created_at").defaultNow().notNull(),
 		updatedAt: timestamp("updated_at").defaultNow().notNull()
 	},
 	(table) => [
 		index("cases_customer_id_idx").on(table.customerId),
-		index("cases_visma_guid_idx").on(table.vismaGuid)
+		index("cases_visma_guid_idx").on(table.vismaGuid),
+		index("cases_manager_id_idx").on(table.managerId)
 	]
 );
 
@@ -120,6 +138,64 @@ export const worktypes = pgTable(
 	(table) => [index("worktypes_visma_guid_idx").on(table.vismaGuid)]
 );
 
+// Minimum billable time change history - for a case or a customer default
+export const minBillableTimeChanges = pgTable(
+	"min_billable_time_changes",
+	{
+		id: serial("id").primaryKey(),
+		caseId: integer("case_id").references(() => cases.id),
+		customerId: integer("customer_id").references(() => customers.id),
+		previousValue: integer("previous_value"),
+		newValue: integer("new_value").notNull(),
+		changedBy: integer("changed_by").references(() => users.id),
+		changedAt: timestamp("changed_at").defaultNow().notNull()
+	},
+	(table) => [
+		index("min_billable_time_changes_case_id_idx").on(table.caseId),
+		index("min_billable_time_changes_customer_id_idx").on(table.customerId)
+	]
+);
+
+// Rounding direction types
+export type RoundingDirection = "down" | "up" | "nearest" | "none";
+
+// Rounding rules - per case, falling back to per customer and then the global rule (no case or customer)
+export const roundingRules = pgTable(
+	"rounding_rules",
+	{
+		id: serial("id").primaryKey(),
+		customerId: integer("customer_id").references(() => customers.id),
+		caseId: integer("case_id").references(() => cases.id),
+		intervalMinutes: integer("interval_minutes").notNull().default(5), // 0 = no rounding
+		startDirection: varchar("start_direction", { length: 10 }).notNull().default("down"),
+		endDirection: varchar("end_direction", { length: 10 }).notNull().default("up"),
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull()
+	},
+	(table) => [
+		index("rounding_rules_customer_id_idx").on(table.customerId),
+		index("rounding_rules_case_id_idx").on(table.caseId)
+	]
+);
+
+// Company holidays table - company specific days off and overrides of public holidays
+export const companyHolidays = pgTable(
+	"company_holidays",
+	{
+		id: serial("id").primaryKey(),
+		date: date("date", { mode: "string" }).notNull(),
+		countryCode: varchar("country_code", { length: 10 }), // null = all countries
+		name: varchar("name", { length: 255 }).notNull(),
+		dayOff: boolean("day_off").notNull().default(true), // false = working day despite a public holiday
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull()
+	},
+	(table) => [
+		index("company_holidays_date_idx").on(table.date),
+		index("company_holidays_country_code_idx").on(table.countryCode)
+	]
+);
+
 // Hour entry source types
 export type HourEntrySource =
 	| "inside"
@@ -129,7 +205,7 @@ export type HourEntrySource =
 	| "inside-minimum-billable-time";
 
 // Hour entry status types
-export type HourEntryStatus = "draft" | "confirmed" | "synced";
+export type HourEntryStatus = "draft" | "confirmed" | "approved" | "synced";
 
 // Hour entries table - main hour tracking
 export const hourEntries = pgTable(
@@ -149,6 +225,11 @@ export const hourEntries = pgTable(
 		status: varchar("status", { length: 20 }).notNull().default("draft"),
 		vismaGuid: varchar("visma_guid", { length: 100 }),
 		originalHourEntryId: integer("original_hour_entry_id"),
+		// Entries crossing midnight are split per day; later segments point to the first one
+		segmentOfHourEntryId: integer("segment_of_hour_entry_id"),
+		// Set when a confirmed day is reverted to draft before it reached Visma
+		unconfirmedBy: integer("unconfirmed_by").references(() => users.id),
+		unconfirmedAt: timestamp("unconfirmed_at"),
 		deletedAt: timestamp("deleted_at"),
 		createdAt: timestamp("created_at").defaultNow().notNull(),
 		updatedAt: timestamp("updated_at").defaultNow().notNull()
@@ -157,7 +238,148 @@ export const hourEntries = pgTable(
 		index("hour_entries_user_id_idx").on(table.userId),
 		index("hour_entries_start_time_idx").on(table.startTime),
 		index("hour_entries_status_idx").on(table.status),
-		index("hour_entries_visma_guid_idx").on(table.vismaGuid)
+		index("hour_entries_visma_guid_idx").on(table.vismaGuid),
+		index("hour_entries_segment_of_idx").on(table.segmentOfHourEntryId)
+	]
+);
+
+// Correction request types
+export type CorrectionAction = "update" | "delete";
+export type CorrectionStatus = "pending" | "approved" | "rejected" | "failed";
+
+// Correction requests - changes to synced hour entries, applied to Visma once an admin approves
+export const correctionRequests = pgTable(
+	"correction_requests",
+	{
+		id: serial("id").primaryKey(),
+		hourEntryId: integer("hour_entry_id")
+			.references(() => hourEntries.id)
+			.notNull(),
+		userId: integer("user_id")
+			.references(() => users.id)
+			.notNull(),
+		action: varchar("action", { length: 10 }).notNull(),
+		// Requested values of an update, null for a delete
+		startTime: timestamp("start_time"),
+		endTime: timestamp("end_time"),
+		description: text("description"),
+		phaseId: integer("phase_id").references(() => phases.id),
+		worktypeId: integer("worktype_id").references(() => worktypes.id),
+		reason: text("reason").notNull(),
+		requestedBy: integer("requested_by").references(() => users.id), // the user, or an admin viewing as them
+		status: varchar("status", { length: 20 }).notNull().default("pending"),
+		// Values of the entry before the correction was applied
+		originalStartTime: timestamp("original_start_time"),
+		originalEndTime: timestamp("original_end_time"),
+		originalDescription: text("original_description"),
+		originalPhaseId: integer("original_phase_id").references(() => phases.id),
+		originalWorktypeId: integer("original_worktype_id").references(() => worktypes.id),
+		reviewedBy: integer("reviewed_by").references(() => users.id),
+		reviewedAt: timestamp("reviewed_at"),
+		reviewNote: text("review_note"),
+		error: text("error"), // why applying an approved correction failed
+		createdAt: timestamp("created_at").defaultNow().notNull(),
+		updatedAt: timestamp("updated_at").defaultNow().notNull()
+	},
+	(table) => [
+		index("correction_requests_hour_entry_id_idx").on(table.hourEntryId),
+		index("correction_requests_user_id_idx").on(table.userId),
+		index("correction_requests_status_idx").on(table.status)
+	]
+);
+
+// Hour entry history event types
+export type HourEntryHistoryEvent =
+	"create" | "update" | "delete" | "confirm" | "unconfirm" | "approve" | "reject" | "sync";
+
+// Hour entry history - who changed what on an entry, and when
+export const hourEntryHistory = pgTable(
+	"hour_entry_history",
+	{
+		id: serial("id").primaryKey(),
+		hourEntryId: integer("hour_entry_id")
+			.references(() => hourEntries.id)
+			.notNull(),
+		userId: integer("user_id") // owner of the entry
+			.references(() => users.id)
+			.notNull(),
+		actorId: integer("actor_id").references(() => users.id), // null = the system, e.g. the scheduled export
+		event: varchar("event", { length: 20 }).notNull(),
+		before: text("before"), // JSON of the entry's fields, null on create
+		after: text("after"), // JSON of the entry's fields, null on delete
+		reason: text("reason"),
+		createdAt: timestamp("created_at").defaultNow().notNull()
+	},
+	(table) => [
+		index("hour_entry_history_hour_entry_id_idx").on(table.hourEntryId),
+		index("hour_entry_history_user_id_idx").on(table.userId),
+		index("hour_entry_history_actor_id_idx").on(table.actorId),
+		index("hour_entry_history_created_at_idx").on(table.createdAt)
+	]
+);
+
+// Day reviews - a manager's approval or rejection of a user's confirmed day
+export type DayReviewDecision = "approved" | "rejected";
+
+export const dayReviews = pgTable(
+	"day_reviews",
+	{
+		id: serial("id").primaryKey(),
+		userId: integer("user_id")
+			.references(() => users.id)
+			.notNull(),
+		day: date("day", { mode: "string" }).notNull(), // yyyy-MM-dd in the user's timezone
+		decision: varchar("decision", { length: 20 }).notNull(),
+		comment: text("comment"), // shown to the user on the dashboard when rejected
+		reviewedBy: integer("reviewed_by")
+			.references(() => users.id)
+			.notNull(),
+		createdAt: timestamp("created_at").defaultNow().notNull()
+	},
+	(table) => [
+		index("day_reviews_user_id_day_idx").on(table.userId, table.day),
+		index("day_reviews_reviewed_by_idx").on(table.reviewedBy)
+	]
+);
+
+// Period locks - months closed by an admin once payroll and invoicing are done
+export const periodLocks = pgTable(
+	"period_locks",
+	{
+		id: serial("id").primaryKey(),
+		month: varchar("month", { length: 7 }).notNull(), // yyyy-MM in the user's timezone
+		userId: integer("user_id").references(() => users.id), // null = all users
+		note: text("note"),
+		lockedBy: integer("locked_by")
+			.references(() => users.id)
+			.notNull(),
+		createdAt: timestamp("created_at").defaultNow().notNull()
+	},
+	(table) => [
+		index("period_locks_month_idx").on(table.month),
+		index("period_locks_user_id_idx").on(table.userId)
+	]
+);
+
+// Impersonation log - what admins did while viewing the app as another user
+export const impersonationLogs = pgTable(
+	"impersonation_logs",
+	{
+		id: serial("id").primaryKey(),
+		adminId: integer("admin_id")
+			.references(() => users.id)
+			.notNull(),
+		userId: integer("user_id")
+			.references(() => users.id)
+			.notNull(),
+		action: varchar("action", { length: 100 }).notNull(), // start, stop, enable-edits, disable-edits or a remote function name
+		details: text("details"), // JSON of the action's input
+		createdAt: timestamp("created_at").defaultNow().notNull()
+	},
+	(table) => [
+		index("impersonation_logs_admin_id_idx").on(table.adminId),
+		index("impersonation_logs_user_id_idx").on(table.userId),
+		index("impersonation_logs_created_at_idx").on(table.createdAt)
 	]
 );
 
@@ -169,7 +391,13 @@ export const syncLogs = pgTable(
 		type: varchar("type", { length: 50 }).notNull(), // 'visma-import', 'visma-export', 'clickup-sync'
 		status: varchar("status", { length: 20 }).notNull(), // 'started', 'completed', 'failed'
 		entityType: varchar("entity_type", { length: 50 }), // 'customers', 'cases', 'phases', 'worktypes', 'users', 'hour-entries'
+		mode: varchar("mode", { length: 20 }), // 'full', 'incremental'
+		changedSince: timestamp("changed_since"), // watermark of an incremental import
 		recordsProcessed: integer("records_processed").default(0),
+		recordsTotal: integer("records_total"), // known once the records to process are fetched
+		recordsCreated: integer("records_created").default(0),
+		recordsUpdated: integer("records_updated").default(0),
+		recordsDeactivated: integer("records_deactivated").default(0), // rows no longer returned by Visma
 		error: text("error"),
 		startedAt: timestamp("started_at").notNull(),
 		completedAt: timestamp("completed_at"),
@@ -177,10 +405,56 @@ export const syncLogs = pgTable(
 	},
 	(table) => [
 		index("sync_logs_type_idx").on(table.type),
-		index("sync_logs_status_idx").on(table.status)
+		index("sync_logs_status_idx").on(table.status),
+		index("sync_logs_entity_type_idx").on(table.entityType)
+	]
+);
+
+// Job runs table - history of background job executions
+export const jobRuns = pgTable(
+	"job_runs",
+	{
+		id: serial("id").primaryKey(),
+		jobName: varchar("job_name", { length: 100 }).notNull(),
+		trigger: varchar("trigger", { length: 20 }).notNull(), // 'schedule', 'manual'
+		scheduledFor: timestamp("scheduled_for"), // cron slot of a scheduled run, null for manual runs
+		triggeredBy: integer("triggered_by").references(() => users.id),
+		status: varchar("status", { length: 20 }).notNull(), // 'running', 'completed', 'failed'
+		result: text("result"), // short summary of what the job did
+		error: text("error"),
+		instanceId: varchar("instance_id", { length: 100 }).notNull(),
+		startedAt: timestamp("started_at").notNull(),
+		completedAt: timestamp("completed_at"),
+		durationMs: integer("duration_ms")
+	},
+	(table) => [
+		index("job_runs_job_name_idx").on(table.jobName),
+		index("job_runs_started_at_idx").on(table.startedAt),
+		// Only one app instance may claim a scheduled slot
+		uniqueIndex("job_runs_job_name_scheduled_for_idx").on(table.jobName, table.scheduledFor)
 	]
 );
 
+// Job locks table - prevents the same job running in two app instances at once
+export const jobLocks = pgTable("job_locks", {
+	jobName: varchar("job_name", { length: 100 }).primaryKey(),
+	instanceId: varchar("instance_id", { length: 100 }).notNull(),
+	lockedAt: timestamp("locked_at").notNull(),
+	expiresAt: timestamp("expires_at").notNull()
+});
+
+// Visma import previews table - data fetched by a dry run, kept until it is applied or expires
+export const vismaImportPreviews = pgTable(
+	"visma_import_previews",
+	{
+		id: varchar("id", { length: 36 }).primaryKey(),
+		snapshot: text("snapshot").notNull(), // JSON of the data fetched from Visma
+		expiresAt: timestamp("expires_at").notNull(),
+		createdAt: timestamp("created_at").defaultNow().notNull()
+	},
+	(table) => [index("visma_import_previews_expires_at_idx").on(table.expiresAt)]
+);
+
 // Notification log for email tracking
 export const notificationLogs = pgTable(
 	"notification_logs",
@@ -192,11 +466,13 @@ export const notificationLogs = pgTable(
 		subject: varchar("subject", { length: 500 }),
 		status: varchar("status", { length: 20 }).notNull(), // 'sent', 'failed'
 		error: text("error"),
+		referenceKey: varchar("reference_key", { length: 255 }), // e.g. "missing-hours:12:2025-01-31"
 		sentAt: timestamp("sent_at").defaultNow().notNull()
 	},
 	(table) => [
 		index("notification_logs_user_id_idx").on(table.userId),
-		index("notification_logs_type_idx").on(table.type)
+		index("notification_logs_type_idx").on(table.type),
+		index("notification_logs_reference_key_idx").on(table.referenceKey)
 	]
 );
 
@@ -211,15 +487,34 @@ export const sessionsRelations = relations(sessions, ({ one }) => ({
 	user: one(users, { fields: [sessions.userId], references: [users.id] })
 }));
 
-export const customersRelations = relations(customers, ({ many }) => ({
+export const customersRelations = relations(customers, ({ one, many }) => ({
+	manager: one(users, { fields: [customers.managerId], references: [users.id] }),
 	cases: many(cases)
 }));
 
 export const casesRelations = relations(cases, ({ one, many }) => ({
 	customer: one(customers, { fields: [cases.customerId], references: [customers.id] }),
+	manager: one(users, { fields: [cases.managerId], references: [users.id] }),
 	phases: many(phases)
 }));
 
+export const minBillableTimeChangesRelations = relations(minBillableTimeChanges, ({ one }) => ({
+	case: one(cases, { fields: [minBillableTimeChanges.caseId], references: [cases.id] }),
+	customer: one(customers, {
+		fields: [minBillableTimeChanges.customerId],
+		references: [customers.id]
+	}),
+	changedByUser: one(users, {
+		fields: [minBillableTimeChanges.changedBy],
+		references: [users.id]
+	})
+}));
+
+export const roundingRulesRelations = relations(roundingRules, ({ one }) => ({
+	customer: one(customers, { fields: [roundingRules.customerId], references: [customers.id] }),
+	case: one(cases, { fields: [roundingRules.caseId], references: [cases.id] })
+}));
+
 export const phasesRelations = relations(phases, ({ one, many }) => ({
 	case: one(cases, { fields: [phases.caseId], references: [cases.id] }),
 	hourEntries: many(hourEntries)
@@ -235,10 +530,93 @@ export const hourEntriesRelations = relations(hourEntries, ({ one }) => ({
 	worktype: one(worktypes, { fields: [hourEntries.worktypeId], references: [worktypes.id] }),
 	originalHourEntry: one(hourEntries, {
 		fields: [hourEntries.originalHourEntryId],
+		references: [hourEntries.id],
+		relationName: "originalHourEntry"
+	}),
+	segmentOf: one(hourEntries, {
+		fields: [hourEntries.segmentOfHourEntryId],
+		references: [hourEntries.id],
+		relationName: "segmentOf"
+	})
+}));
+
+export const correctionRequestsRelations = relations(correctionRequests, ({ one }) => ({
+	hourEntry: one(hourEntries, {
+		fields: [correctionRequests.hourEntryId],
 		references: [hourEntries.id]
+	}),
+	user: one(users, {
+		fields: [correctionRequests.userId],
+		references: [users.id],
+		relationName: "correctionRequester"
+	}),
+	reviewedByUser: one(users, {
+		fields: [correctionRequests.reviewedBy],
+		references: [users.id],
+		relationName: "correctionReviewer"
+	})
+}));
+
+export const hourEntryHistoryRelations = relations(hourEntryHistory, ({ one }) => ({
+	hourEntry: one(hourEntries, {
+		fields: [hourEntryHistory.hourEntryId],
+		references: [hourEntries.id]
+	}),
+	user: one(users, {
+		fields: [hourEntryHistory.userId],
+		references: [users.id],
+		relationName: "hourEntryHistoryUser"
+	}),
+	actor: one(users, {
+		fields: [hourEntryHistory.actorId],
+		references: [users.id],
+		relationName: "hourEntryHistoryActor"
+	})
+}));
+
+export const dayReviewsRelations = relations(dayReviews, ({ one }) => ({
+	user: one(users, {
+		fields: [dayReviews.userId],
+		references: [users.id],
+		relationName: "dayReviewUser"
+	}),
+	reviewedByUser: one(users, {
+		fields: [dayReviews.reviewedBy],
+		references: [users.id],
+		relationName: "dayReviewer"
 	})
 }));
 
+export const periodLocksRelations = relations(periodLocks, ({ one }) => ({
+	user: one(users, {
+		fields: [periodLocks.userId],
+		references: [users.id],
+		relationName: "periodLockUser"
+	}),
+	lockedByUser: one(users, {
+		fields: [periodLocks.lockedBy],
+		references: [users.id],
+		relationName: "periodLockedBy"
+	})
+}));
+
+export const impersonationLogsRelations = relations(impersonationLogs, ({ one }) => ({
+	admin: one(users, {
+		fields: [impersonationLogs.adminId],
+		references: [users.id],
+		relationName: "impersonationAdmin"
+	}),
+	user: one(users, {
+		fields: [impersonationLogs.userId],
+		references: [users.id],
+		relationName: "impersonatedUser"
+	})
+}));
+
+export const jobRunsRelations = relations(jobRuns, ({ one }) => ({
+	triggeredByUser: one(users, { fields: [jobRuns.triggeredBy], references: [users.id] })
+}));
+
 export const notificationLogsRelations = relations(notificationLogs, ({ one }) => ({
 	user: one(users, { fields: [notificationLogs.userId], references: [users.id] })
 }));
@@ -256,9 +634,31 @@ export type Phase = typeof phases.$inferSelect;
 export type NewPhase = typeof phases.$inferInsert;
 export type Worktype = typeof worktypes.$inferSelect;
 export type NewWorktype = typeof worktypes.$inferInsert;
+export type MinBillableTimeChange = typeof minBillableTimeChanges.$inferSelect;
+export type NewMinBillableTimeChange = typeof minBillableTimeChanges.$inferInsert;
+export type RoundingRule = typeof roundingRules.$inferSelect;
+export type NewRoundingRule = typeof roundingRules.$inferInsert;
+export type CompanyHoliday = typeof companyHolidays.$inferSelect;
+export type NewCompanyHoliday = typeof companyHolidays.$inferInsert;
 export type HourEntry = typeof hourEntries.$inferSelect;
 export type NewHourEntry = typeof hourEntries.$inferInsert;
+export type CorrectionRequest = typeof correctionRequests.$inferSelect;
+export type NewCorrectionRequest = typeof correctionRequests.$inferInsert;
+export type HourEntryHistory = typeof hourEntryHistory.$inferSelect;
+export type NewHourEntryHistory = typeof hourEntryHistory.$inferInsert;
+export type DayReview = typeof dayReviews.$inferSelect;
+export type NewDayReview = typeof dayReviews.$inferInsert;
+export type PeriodLock = typeof periodLocks.$inferSelect;
+export type NewPeriodLock = typeof periodLocks.$inferInsert;
+export type ImpersonationLog = typeof impersonationLogs.$inferSelect;
+export type NewImpersonationLog = typeof impersonationLogs.$inferInsert;
 export type SyncLog = typeof syncLogs.$inferSelect;
 export type NewSyncLog = typeof syncLogs.$inferInsert;
+export type JobRun = typeof jobRuns.$inferSelect;
+export type NewJobRun = typeof jobRuns.$inferInsert;
+export type JobLock = typeof jobLocks.$inferSelect;
+export type NewJobLock = typeof jobLocks.$inferInsert;
+export type VismaImportPreview = typeof vismaImportPreviews.$inferSelect;
+export type NewVismaImportPreview = typeof vismaImportPreviews.$inferInsert;
 export type NotificationLog = typeof notificationLogs.$inferSelect;
 export type NewNotificationLog = typeof notificationLogs.$inferInsert;
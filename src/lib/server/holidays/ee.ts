@@ -0,0 +1,25 @@
+import { addDays } from "date-fns";
+import { calculateEaster } from "./easter";
+import type { HolidayRuleSet } from "./types";
+
+/**
+ * Estonian public holidays
+ */
+export const estonianHolidays: HolidayRuleSet = (year) => {
+	const easter = calculateEaster(year);
+
+	return [
+		{ date: new Date(year, 0, 1), name: "New Year's Day" },
+		{ date: new Date(year, 1, 24), name: "Independence Day" },
+		{ date: addDays(easter, -2), name: "Good Friday" },
+		{ date: easter, name: "Easter Sunday" },
+		{ date: new Date(year, 4, 1), name: "Spring Day" },
+		{ date: addDays(easter, 49), name: "Pentecost" },
+		{ date: new Date(year, 5, 23), name: "Victory Day" },
+		{ date: new Date(year, 5, 24), name: "Midsummer Day" },
+		{ date: new Date(year, 7, 20), name: "Day of Restoration of Independence" },
+		{ date: new Date(year, 11, 24), name: "Christmas Eve" },
+		{ date: new Date(year, 11, 25), name: "Christmas Day" },
+		{ date: new Date(year, 11, 26), name: "Boxing Day" }
+	];
+};
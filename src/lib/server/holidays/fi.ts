@@ -0,0 +1,30 @@
+import { addDays, nextFriday, nextSaturday } from "date-fns";
+import { calculateEaster } from "./easter";
+import type { HolidayRuleSet } from "./types";
+
+/**
+ * Finnish official holidays
+ */
+export const finnishHolidays: HolidayRuleSet = (year) => {
+	const easter = calculateEaster(year);
+	// Midsummer Eve is the Friday between June 19-25
+	const midsummerEve = nextFriday(new Date(year, 5, 18));
+
+	return [
+		{ date: new Date(year, 0, 1), name: "New Year's Day" },
+		{ date: new Date(year, 0, 6), name: "Epiphany" },
+		{ date: addDays(easter, -2), name: "Good Friday" },
+		{ date: easter, name: "Easter Sunday" },
+		{ date: addDays(easter, 1), name: "Easter Monday" },
+		{ date: new Date(year, 4, 1), name: "May Day" },
+		{ date: addDays(easter, 39), name: "Ascension Day" },
+		{ date: midsummerEve, name: "Midsummer Eve" },
+		{ date: addDays(midsummerEve, 1), name: "Midsummer Day" },
+		// All Saints' Day is the Saturday between Oct 31 - Nov 6
+		{ date: nextSaturday(new Date(year, 9, 30)), name: "All Saints' Day" },
+		{ date: new Date(year, 11, 6), name: "Independence Day" },
+		{ date: new Date(year, 11, 24), name: "Christmas Eve" },
+		{ date: new Date(year, 11, 25), name: "Christmas Day" },
+		{ date: new Date(year, 11, 26), name: "Boxing Day" }
+	];
+};
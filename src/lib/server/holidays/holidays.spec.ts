@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { getPublicHolidays, getSupportedCountries } from "./index";
+
+function dates(countryCode: string, year: number): string[] {
+	return getPublicHolidays(countryCode, year).map((holiday) => holiday.date);
+}
+
+describe("getPublicHolidays", () => {
+	it("computes the Finnish holidays", () => {
+		expect(dates("FI", 2024)).toEqual([
+			"2024-01-01",
+			"2024-01-06",
+			"2024-03-29",
+			"2024-03-31",
+			"2024-04-01",
+			"2024-05-01",
+			"2024-05-09",
+			"2024-06-21",
+			"2024-06-22",
+			"2024-11-02",
+			"2024-12-06",
+			"2024-12-24",
+			"2024-12-25",
+			"2024-12-26"
+		]);
+	});
+
+	it("places Midsummer and All Saints' Day on the first day of their window", () => {
+		const holidays = getPublicHolidays("FI", 2026);
+		const dateOf = (name: string) => holidays.find((holiday) => holiday.name === name)?.date;
+
+		expect(dateOf("Midsummer Eve")).toBe("2026-06-19");
+		expect(dateOf("Midsummer Day")).toBe("2026-06-20");
+		expect(dateOf("All Saints' Day")).toBe("2026-10-31");
+		expect(dateOf("Easter Sunday")).toBe("2026-04-05");
+	});
+
+	it("computes the Swedish holidays", () => {
+		expect(dates("SE", 2025)).toEqual([
+			"2025-01-01",
+			"2025-01-06",
+			"2025-04-18",
+			"2025-04-20",
+			"2025-04-21",
+			"2025-05-01",
+			"2025-05-29",
+			"2025-06-06",
+			"2025-06-08",
+			"2025-06-20",
+			"2025-06-21",
+			"2025-11-01",
+			"2025-12-24",
+			"2025-12-25",
+			"2025-12-26",
+			"2025-12-31"
+		]);
+	});
+
+	it("computes the Estonian holidays", () => {
+		expect(dates("EE", 2024)).toEqual([
+			"2024-01-01",
+			"2024-02-24",
+			"2024-03-29",
+			"2024-03-31",
+			"2024-05-01",
+			"2024-05-19",
+			"2024-06-23",
+			"2024-06-24",
+			"2024-08-20",
+			"2024-12-24",
+			"2024-12-25",
+			"2024-12-26"
+		]);
+	});
+
+	it("accepts lower case country codes and falls back to Finland for unknown ones", () => {
+		expect(dates("se", 2024)).toEqual(dates("SE", 2024));
+		expect(dates("XX", 2024)).toEqual(dates("FI", 2024));
+	});
+});
+
+describe("getSupportedCountries", () => {
+	it("lists the countries with rule sets", () => {
+		expect(getSupportedCountries()).toEqual(expect.arrayContaining(["FI", "SE", "EE"]));
+	});
+});
@@ -0,0 +1,44 @@
+import { format } from "date-fns";
+import { finnishHolidays } from "./fi";
+import { swedishHolidays } from "./se";
+import { estonianHolidays } from "./ee";
+import type { HolidayRuleSet } from "./types";
+
+export type { HolidayRuleSet, PublicHoliday } from "./types";
+
+// Country used when a user's country has no rule set
+export const DEFAULT_COUNTRY_CODE = "FI";
+
+const ruleSets = new Map<string, HolidayRuleSet>([
+	["FI", finnishHolidays],
+	["SE", swedishHolidays],
+	["EE", estonianHolidays]
+]);
+
+/**
+ * Add or replace the holiday rules of a country
+ */
+export function registerHolidayRuleSet(countryCode: string, ruleSet: HolidayRuleSet): void {
+	ruleSets.set(countryCode.toUpperCase(), ruleSet);
+}
+
+/**
+ * Get the country codes that have holiday rules
+ */
+export function getSupportedCountries(): string[] {
+	return Array.from(ruleSets.keys());
+}
+
+/**
+ * Get the public holidays of a country as "yyyy-MM-dd" days, sorted by date
+ */
+export function getPublicHolidays(
+	countryCode: string,
+	year: number
+): { date: string; name: string }[] {
+	const ruleSet = ruleSets.get(countryCode.toUpperCase()) ?? ruleSets.get(DEFAULT_COUNTRY_CODE)!;
+
+	return ruleSet(year)
+		.map((holiday) => ({ date: format(holiday.date, "yyyy-MM-dd"), name: holiday.name }))
+		.sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,9 @@
+export interface PublicHoliday {
+	date: Date;
+	name: string;
+}
+
+/**
+ * Computes the public holidays of one country for a year
+ */
+export type HolidayRuleSet = (year: number) => PublicHoliday[];
@@ -27,6 +27,7 @@ export interface MissingHoursData {
 	firstName: string;
 	daysWithMissingHours: Date[];
 	daysWithUnconfirmedHours: Date[];
+	referenceKey?: string;
 }
 
 export interface PMReportData {
@@ -37,6 +38,8 @@ export interface PMReportData {
 		email: string;
 		missingDaysCount: number;
 	}[];
+	referenceKey?: string;
+	recipient?: string; // the PM_EMAIL inbox when not given
 }
 
 /**
@@ -89,7 +92,8 @@ export async function sendMissingHoursNotification(data: MissingHoursData): Prom
 			type: "missing-hours",
 			recipient: data.email,
 			subject,
-			status: "sent"
+			status: "sent",
+			referenceKey: data.referenceKey
 		});
 
 		return true;
@@ -103,7 +107,8 @@ export async function sendMissingHoursNotification(data: MissingHoursData): Prom
 			recipient: data.email,
 			subject,
 			status: "failed",
-			error: error instanceof Error ? error.message : "Unknown error"
+			error: error instanceof Error ? error.message : "Unknown error",
+			referenceKey: data.referenceKey
 		});
 
 		return false;
@@ -116,8 +121,9 @@ export async function sendMissingHoursNotification(data: MissingHoursData): Prom
 export async function sendPMReport(data: PMReportData): Promise<boolean> {
 	const resend = getResendClient();
 	const config = getEmailConfig();
+	const recipient = data.recipient ?? config.pmEmail;
 
-	if (!resend || !config.pmEmail) {
+	if (!resend || !recipient) {
 		console.log("PM report disabled - no Resend API key or PM email configured");
 		return false;
 	}
@@ -138,7 +144,7 @@ export async function sendPMReport(data: PMReportData): Promise<boolean> {
 	try {
 		await resend.emails.send({
 			from: config.fromEmail,
-			to: config.pmEmail,
+			to: recipient,
 			subject,
 			text: body
 		});
@@ -146,9 +152,10 @@ export async function sendPMReport(data: PMReportData): Promise<boolean> {
 		// Log successful notification
 		await db.insert(notificationLogs).values({
 			type: "missing-hours-pm-report",
-			recipient: config.pmEmail,
+			recipient,
 			subject,
-			status: "sent"
+			status: "sent",
+			referenceKey: data.referenceKey
 		});
 
 		return true;
@@ -158,10 +165,11 @@ export async function sendPMReport(data: PMReportData): Promise<boolean> {
 		// Log failed notification
 		await db.insert(notificationLogs).values({
 			type: "missing-hours-pm-report",
-			recipient: config.pmEmail,
+			recipient,
 			subject,
 			status: "failed",
-			error: error instanceof Error ? error.message : "Unknown error"
+			error: error instanceof Error ? error.message : "Unknown error",
+			referenceKey: data.referenceKey
 		});
 
 		return false;
@@ -30,6 +30,10 @@ export interface VismaProject {
 	};
 	isClosed: boolean;
 	projectNumber?: string;
+	projectOwner?: {
+		guid: string;
+		name?: string;
+	};
 }
 
 export interface VismaPhase {
@@ -86,6 +90,11 @@ class VismaClient {
 		this.clientSecret = env.VISMA_CLIENT_SECRET || null;
 	}
 
+	// API the client talks to, shown to admins so a staging URL is easy to spot
+	get baseUrl(): string {
+		return VISMA_BASE_URL;
+	}
+
 	private async getAccessToken(): Promise<string> {
 		// If we have a valid token, return it
 		if (this.accessToken && this.tokenExpiresAt && this.tokenExpiresAt > new Date()) {
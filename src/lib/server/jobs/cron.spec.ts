@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { parseCron, matchesCron, getNextCronTime } from "./cron";
+
+const TIMEZONE = "Europe/Helsinki";
+
+describe("parseCron", () => {
+	it("parses wildcards, ranges, lists and steps", () => {
+		const schedule = parseCron("*/15 9-11 1,15 * 1-5");
+
+		expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+		expect([...schedule.hours]).toEqual([9, 10, 11]);
+		expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+		expect(schedule.months.size).toBe(12);
+		expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+		expect(schedule.anyDayOfMonth).toBe(false);
+		expect(schedule.anyDayOfWeek).toBe(false);
+	});
+
+	it("treats 7 as Sunday", () => {
+		expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+	});
+
+	it("rejects invalid expressions", () => {
+		expect(() => parseCron("0 0 * *")).toThrow("5 fields");
+		expect(() => parseCron("60 0 * * *")).toThrow("Invalid cron field");
+		expect(() => parseCron("0 5-1 * * *")).toThrow("Invalid cron field");
+		expect(() => parseCron("*/0 0 * * *")).toThrow("Invalid cron step");
+	});
+});
+
+describe("matchesCron", () => {
+	it("matches in the scheduler timezone", () => {
+		const schedule = parseCron("0 3 * * *");
+
+		// 03:00 in Helsinki is 01:00 UTC in winter
+		expect(matchesCron(schedule, new Date("2024-01-15T01:00:00Z"), TIMEZONE)).toBe(true);
+		expect(matchesCron(schedule, new Date("2024-01-15T03:00:00Z"), TIMEZONE)).toBe(false);
+	});
+
+	it("matches either day field when both are restricted", () => {
+		const schedule = parseCron("0 12 1 * 1");
+
+		// Monday 15 January, Thursday 1 February, Tuesday 16 January
+		expect(matchesCron(schedule, new Date("2024-01-15T10:00:00Z"), TIMEZONE)).toBe(true);
+		expect(matchesCron(schedule, new Date("2024-02-01T10:00:00Z"), TIMEZONE)).toBe(true);
+		expect(matchesCron(schedule, new Date("2024-01-16T10:00:00Z"), TIMEZONE)).toBe(false);
+	});
+});
+
+describe("getNextCronTime", () => {
+	it("finds the next daily run", () => {
+		const schedule = parseCron("0 3 * * *");
+
+		expect(getNextCronTime(schedule, new Date("2024-01-15T01:00:00Z"), TIMEZONE)).toEqual(
+			new Date("2024-01-16T01:00:00Z")
+		);
+	});
+
+	it("finds the next weekly run", () => {
+		// Sundays at 02:00, looking from Monday 15 January
+		const schedule = parseCron("0 2 * * 0");
+
+		expect(getNextCronTime(schedule, new Date("2024-01-15T12:00:00Z"), TIMEZONE)).toEqual(
+			new Date("2024-01-21T00:00:00Z")
+		);
+	});
+
+	it("follows the clock change to summer time", () => {
+		const schedule = parseCron("0 9 * * *");
+
+		// 09:00 in Helsinki is 07:00 UTC on 30 March and 06:00 UTC on 31 March
+		expect(getNextCronTime(schedule, new Date("2024-03-30T07:00:00Z"), TIMEZONE)).toEqual(
+			new Date("2024-03-31T06:00:00Z")
+		);
+	});
+
+	it("returns null for a schedule that never runs", () => {
+		expect(
+			getNextCronTime(parseCron("0 0 31 2 *"), new Date("2024-01-15T00:00:00Z"), TIMEZONE)
+		).toBe(null);
+	});
+});
@@ -0,0 +1,137 @@
+import { addDays, addHours, addMinutes, startOfDay, startOfHour, startOfMinute } from "date-fns";
+import { fromZonedTime, toZonedTime } from "date-fns-tz";
+
+/**
+ * A parsed five field cron expression: minute, hour, day of month, month and day of week
+ */
+export interface CronSchedule {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	// Standard cron matches either day field when both are restricted
+	anyDayOfMonth: boolean;
+	anyDayOfWeek: boolean;
+}
+
+// Look at most this far ahead when searching for the next run
+const MAX_SEARCH_DAYS = 366;
+
+/**
+ * Parse one cron field, supporting "*", lists ("0,30"), ranges ("1-5") and steps ("0-59/15")
+ */
+function parseField(field: string, min: number, max: number): Set<number> {
+	const values = new Set<number>();
+
+	for (const part of field.split(",")) {
+		const [range, stepStr] = part.split("/");
+		const step = stepStr !== undefined ? Number(stepStr) : 1;
+		if (!Number.isInteger(step) || step < 1) {
+			throw new Error(`Invalid cron step: ${part}`);
+		}
+
+		let start = min;
+		let end = max;
+		if (range !== "*") {
+			const [startStr, endStr] = range.split("-");
+			start = Number(startStr);
+			end = endStr !== undefined ? Number(endStr) : stepStr !== undefined ? max : start;
+		}
+
+		if (
+			!Number.isInteger(start) ||
+			!Number.isInteger(end) ||
+			start < min ||
+			end > max ||
+			start > end
+		) {
+			throw new Error(`Invalid cron field: ${field}`);
+		}
+
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	}
+
+	return values;
+}
+
+/**
+ * Parse a five field cron expression
+ */
+export function parseCron(expression: string): CronSchedule {
+	const fields = expression.trim().split(/\s+/);
+	if (fields.length !== 5) {
+		throw new Error(`Cron expression must have 5 fields: ${expression}`);
+	}
+
+	const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+
+	// Sunday can be written as 0 or 7
+	const daysOfWeek = parseField(dayOfWeek, 0, 7);
+	if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+	return {
+		minutes: parseField(minute, 0, 59),
+		hours: parseField(hour, 0, 23),
+		daysOfMonth: parseField(dayOfMonth, 1, 31),
+		months: parseField(month, 1, 12),
+		daysOfWeek,
+		anyDayOfMonth: dayOfMonth === "*",
+		anyDayOfWeek: dayOfWeek === "*"
+	};
+}
+
+/**
+ * Check whether a local (zoned) date falls on a day the schedule runs
+ */
+function matchesDay(schedule: CronSchedule, local: Date): boolean {
+	if (!schedule.months.has(local.getMonth() + 1)) return false;
+
+	const dayOfMonth = schedule.daysOfMonth.has(local.getDate());
+	const dayOfWeek = schedule.daysOfWeek.has(local.getDay());
+
+	if (schedule.anyDayOfMonth) return dayOfWeek;
+	if (schedule.anyDayOfWeek) return dayOfMonth;
+	return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Check whether the schedule runs in the minute of a date, in the given timezone
+ */
+export function matchesCron(schedule: CronSchedule, date: Date, timeZone: string): boolean {
+	const local = toZonedTime(date, timeZone);
+
+	return (
+		matchesDay(schedule, local) &&
+		schedule.hours.has(local.getHours()) &&
+		schedule.minutes.has(local.getMinutes())
+	);
+}
+
+/**
+ * Get the next time after a date that the schedule runs, in the given timezone
+ */
+export function getNextCronTime(
+	schedule: CronSchedule,
+	after: Date,
+	timeZone: string
+): Date | null {
+	let local = addMinutes(startOfMinute(toZonedTime(after, timeZone)), 1);
+	const limit = addDays(local, MAX_SEARCH_DAYS);
+
+	while (local < limit) {
+		if (!matchesDay(schedule, local)) {
+			local = startOfDay(addDays(local, 1));
+		} else if (!schedule.hours.has(local.getHours())) {
+			local = startOfHour(addHours(local, 1));
+		} else if (!schedule.minutes.has(local.getMinutes())) {
+			local = addMinutes(local, 1);
+		} else {
+			return fromZonedTime(local, timeZone);
+		}
+	}
+
+	return null;
+}
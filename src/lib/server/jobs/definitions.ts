@@ -0,0 +1,87 @@
+import { deleteExpiredSessions } from "$lib/server/auth/session";
+import { importAll, importHours, type ImportOptions } from "$lib/server/services/visma-import";
+import { exportConfirmedEntries } from "$lib/server/services/visma-export";
+import { runMissingHoursReminders } from "$lib/server/services/reminders";
+import type { JobDefinition } from "./types";
+
+// An import running during an export would copy hours whose GUIDs are not stored yet
+const VISMA_HOURS_LOCK = "visma-hours";
+
+// The daily and the full import write the same rows and must not interleave
+const VISMA_IMPORT_LOCK = "visma-import";
+
+/**
+ * Import from Visma and summarize the records processed per entity
+ */
+async function runVismaImport(options: ImportOptions): Promise<string> {
+	const { success, results, error } = await importAll(options);
+	if (!success) throw new Error(error || "Visma import failed");
+
+	return Object.entries(results)
+		.map(([entity, result]) => `${entity}: ${result.processed}`)
+		.join(", ");
+}
+
+/**
+ * Background jobs run by the scheduler
+ */
+export const jobDefinitions: JobDefinition[] = [
+	{
+		name: "session-cleanup",
+		description: "Delete expired login sessions",
+		schedule: "15 * * * *",
+		run: async () => {
+			const deleted = await deleteExpiredSessions();
+			return `Deleted ${deleted} expired sessions`;
+		}
+	},
+	{
+		name: "visma-import",
+		description:
+			"Import changes to customers and projects, and all phases, work types and users from Visma",
+		schedule: "0 2 * * 1-6",
+		lockName: VISMA_IMPORT_LOCK,
+		run: () => runVismaImport({})
+	},
+	{
+		name: "visma-full-import",
+		description: "Import everything from Visma, regardless of the last sync",
+		schedule: "0 2 * * 0",
+		lockName: VISMA_IMPORT_LOCK,
+		run: () => runVismaImport({ full: true })
+	},
+	{
+		name: "visma-export",
+		description: "Export approved hour entries to Visma",
+		schedule: "0 3 * * *",
+		lockName: VISMA_HOURS_LOCK,
+		run: async () => {
+			const { exported, skipped, failed } = await exportConfirmedEntries();
+			if (failed > 0) {
+				throw new Error(`Exported ${exported} entries, ${failed} failed`);
+			}
+
+			return `Exported ${exported} entries (${skipped} skipped)`;
+		}
+	},
+	{
+		// Runs after the export so hours exported tonight are recognised by their GUID
+		name: "visma-hours-import",
+		description: "Import hours of the last month entered directly in Visma",
+		schedule: "30 3 * * *",
+		lockName: VISMA_HOURS_LOCK,
+		run: async () => {
+			const { created, updated, deactivated } = await importHours();
+			return `${created} new, ${updated} updated, ${deactivated} removed`;
+		}
+	},
+	{
+		name: "missing-hours-reminders",
+		description: "Remind users about missing hours and send the monthly PM report",
+		schedule: "0 9 * * *",
+		run: async () => {
+			const result = await runMissingHoursReminders();
+			return `Sent ${result.remindersSent} reminders to ${result.usersChecked} users${result.pmReportSent ? `, PM report for ${result.pmReportMonth}` : ""}`;
+		}
+	}
+];
@@ -0,0 +1,13 @@
+export {
+	startScheduler,
+	stopScheduler,
+	startJob,
+	runJobTask,
+	getJobDefinition,
+	getNextRunTime
+} from "./scheduler";
+export { jobDefinitions } from "./definitions";
+export { getJobOverview, getJobRuns } from "./runs";
+export { parseCron, matchesCron, getNextCronTime } from "./cron";
+export type { CronSchedule } from "./cron";
+export type { JobDefinition, JobTrigger, JobRunStatus } from "./types";
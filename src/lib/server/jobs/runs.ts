@@ -0,0 +1,54 @@
+import { db } from "$lib/server/db";
+import { jobRuns, users } from "$lib/server/db/schema";
+import { eq, desc } from "drizzle-orm";
+import { jobDefinitions } from "./definitions";
+import { getNextRunTime } from "./scheduler";
+
+/**
+ * Get every job with its schedule, latest run and next run time
+ */
+export async function getJobOverview() {
+	return Promise.all(
+		jobDefinitions.map(async (job) => {
+			const [lastRun] = await db
+				.select()
+				.from(jobRuns)
+				.where(eq(jobRuns.jobName, job.name))
+				.orderBy(desc(jobRuns.startedAt))
+				.limit(1);
+
+			return {
+				name: job.name,
+				description: job.description,
+				schedule: job.schedule,
+				lastRun: lastRun ?? null,
+				nextRunAt: getNextRunTime(job.name)
+			};
+		})
+	);
+}
+
+/**
+ * Get the most recent job runs, optionally for one job
+ */
+export async function getJobRuns(jobName?: string, limit = 50) {
+	const query = db
+		.select({
+			run: jobRuns,
+			triggeredByFirstName: users.firstName,
+			triggeredByLastName: users.lastName
+		})
+		.from(jobRuns)
+		.leftJoin(users, eq(jobRuns.triggeredBy, users.id));
+
+	const rows = await (jobName ? query.where(eq(jobRuns.jobName, jobName)) : query)
+		.orderBy(desc(jobRuns.startedAt))
+		.limit(limit);
+
+	return rows.map((row) => ({
+		...row.run,
+		triggeredByName: row.triggeredByFirstName
+			? `${row.triggeredByFirstName} ${row.triggeredByLastName}`
+			: null
+	}));
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// In-memory stand-in for the job lock and run tables
+const fake = vi.hoisted(() => {
+	type Row = Record<string, unknown>;
+	type Column = { table: Record<string, unknown> };
+	type Condition = { column: Column; value?: unknown; values?: unknown[] };
+
+	const locks = new Map<string, { instanceId: string; expiresAt: Date }>();
+	const runs: Row[] = [];
+	let nextRunId = 0;
+
+	type Values = { jobName: string; instanceId: string; expiresAt: Date };
+
+	const keyOf = (column: Column) =>
+		Object.entries(column.table).find(([, value]) => value === column)![0];
+	const matches = (row: Row, conditions: Condition | Condition[]) =>
+		[conditions].flat().every(({ column, value, values }) => {
+			const actual = row[keyOf(column)];
+			return values ? values.includes(actual) : actual === value;
+		});
+
+	const db = {
+		insert: () => ({
+			values: (values: Values) => ({
+				onConflictDoUpdate: () => ({
+					returning: async () => {
+						const held = locks.get(values.jobName);
+						if (held && held.expiresAt >= new Date()) return [];
+						locks.set(values.jobName, values);
+						return [values];
+					}
+				}),
+				onConflictDoNothing: () => ({
+					returning: async () => {
+						const run = { ...values, id: ++nextRunId };
+						runs.push(run);
+						return [run];
+					}
+				})
+			})
+		}),
+		update: () => ({
+			set: (values: Row) => ({
+				where: async (conditions: Condition | Condition[]) => {
+					const lockRows = [...locks].map(([jobName, lock]) => ({ jobName, ...lock }));
+					for (const row of [...runs, ...lockRows].filter((r) =>
+						matches(r, conditions)
+					)) {
+						Object.assign(row, values);
+						if ("expiresAt" in values) locks.set(row.jobName as string, row as Values);
+					}
+				}
+			})
+		}),
+		delete: () => ({
+			where: async (conditions: { value: string }[]) => {
+				const [jobName, instanceId] = conditions.map((condition) => condition.value);
+				if (locks.get(jobName)?.instanceId === instanceId) locks.delete(jobName);
+			}
+		})
+	};
+
+	return { db, locks, runs };
+});
+
+vi.mock("$lib/server/db", () => ({ db: fake.db }));
+vi.mock("drizzle-orm", async (importOriginal) => ({
+	...(await importOriginal<typeof import("drizzle-orm")>()),
+	eq: (column: unknown, value: unknown) => ({ column, value }),
+	and: (...conditions: unknown[]) => conditions,
+	lt: (column: unknown, value: unknown) => ({ column, value }),
+	inArray: (column: unknown, values: unknown[]) => ({ column, values })
+}));
+vi.mock("$lib/server/auth/session", () => ({ deleteExpiredSessions: vi.fn() }));
+vi.mock("$lib/server/services/visma-import", () => ({ importAll: vi.fn(), importHours: vi.fn() }));
+vi.mock("$lib/server/services/visma-export", () => ({ exportConfirmedEntries: vi.fn() }));
+vi.mock("$lib/server/services/reminders", () => ({ runMissingHoursReminders: vi.fn() }));
+
+const { startJob, runJobTask } = await import("./scheduler");
+
+// A run that keeps its lock until released
+function blockingRun() {
+	let release!: () => void;
+	const done = new Promise<void>((resolve) => (release = resolve));
+	return { run: () => done, release };
+}
+
+describe("job locks", () => {
+	beforeEach(() => {
+		fake.locks.clear();
+		fake.runs.length = 0;
+	});
+
+	it("does not start the hours import while the export is running", async () => {
+		const exportRun = blockingRun();
+		const exporting = await startJob("visma-export", "manual", { run: exportRun.run });
+		expect(exporting).not.toBeNull();
+
+		expect(await startJob("visma-hours-import", "schedule")).toBeNull();
+		expect(await runJobTask("visma-hours-import", 1, async () => "imported")).toBeNull();
+
+		exportRun.release();
+		await exporting!.finished;
+
+		expect(await runJobTask("visma-hours-import", 1, async () => "imported")).toEqual({
+			result: "imported"
+		});
+	});
+
+	it("does not start the export while the hours import is running", async () => {
+		const importRun = blockingRun();
+		const importing = await startJob("visma-hours-import", "manual", { run: importRun.run });
+		expect(importing).not.toBeNull();
+
+		expect(await startJob("visma-export", "manual")).toBeNull();
+
+		importRun.release();
+		await importing!.finished;
+		expect(fake.locks.size).toBe(0);
+	});
+
+	it("runs jobs with their own locks side by side", async () => {
+		const exportRun = blockingRun();
+		const exporting = await startJob("visma-export", "manual", { run: exportRun.run });
+		const cleanup = await startJob("session-cleanup", "manual", { run: async () => "done" });
+
+		expect(cleanup).not.toBeNull();
+
+		exportRun.release();
+		await Promise.all([exporting!.finished, cleanup!.finished]);
+	});
+
+	it("does not run the daily and the full import side by side", async () => {
+		const importRun = blockingRun();
+		const importing = await startJob("visma-import", "manual", { run: importRun.run });
+		expect(importing).not.toBeNull();
+
+		expect(await startJob("visma-full-import", "manual")).toBeNull();
+
+		importRun.release();
+		await importing!.finished;
+	});
+
+	it("fails the runs of an instance that stopped while holding the lock", async () => {
+		fake.locks.set("visma-hours", {
+			instanceId: "crashed",
+			expiresAt: new Date(Date.now() - 1000)
+		});
+		fake.runs.push({
+			id: 0,
+			jobName: "visma-export",
+			status: "running",
+			instanceId: "crashed"
+		});
+
+		const importing = await startJob("visma-hours-import", "manual", {
+			run: async () => "done"
+		});
+		await importing!.finished;
+
+		expect(fake.runs.map((run) => run.status)).toEqual(["failed", "completed"]);
+	});
+
+	it("keeps the lock of a job running longer than the lock lease", async () => {
+		vi.useFakeTimers();
+		try {
+			const exportRun = blockingRun();
+			const exporting = await startJob("visma-export", "manual", { run: exportRun.run });
+
+			await vi.advanceTimersByTimeAsync(1000 * 60 * 60 * 3);
+			expect(await startJob("visma-hours-import", "manual")).toBeNull();
+
+			exportRun.release();
+			await exporting!.finished;
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+});
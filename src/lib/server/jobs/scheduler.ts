@@ -0,0 +1,290 @@
+import { randomBytes } from "crypto";
+import { hostname } from "os";
+import { db } from "$lib/server/db";
+import { jobRuns, jobLocks } from "$lib/server/db/schema";
+import { DEFAULT_TIMEZONE } from "$lib/constants";
+import { eq, and, lt, inArray } from "drizzle-orm";
+import { addMinutes, startOfMinute } from "date-fns";
+import { parseCron, matchesCron, getNextCronTime, type CronSchedule } from "./cron";
+import { jobDefinitions } from "./definitions";
+import type { JobDefinition, JobRunStatus, JobTrigger } from "./types";
+
+// How long a lock stays valid without being renewed, e.g. after the instance holding it crashed
+const LOCK_LEASE_MINUTES = 5;
+
+// How often a running job renews its lock
+const LOCK_RENEW_INTERVAL_MS = 1000 * 60; // 1 minute
+
+// Identifies this app instance in job locks and runs
+const instanceId = `${hostname()}-${process.pid}-${randomBytes(4).toString("hex")}`;
+
+const schedules = new Map<string, CronSchedule>(
+	jobDefinitions.map((job) => [job.name, parseCron(job.schedule)])
+);
+
+let tickTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Get a job definition by name
+ */
+export function getJobDefinition(name: string): JobDefinition | undefined {
+	return jobDefinitions.find((job) => job.name === name);
+}
+
+/**
+ * Get the next time a job is scheduled to run
+ */
+export function getNextRunTime(name: string, after = new Date()): Date | null {
+	const schedule = schedules.get(name);
+	return schedule ? getNextCronTime(schedule, after, DEFAULT_TIMEZONE) : null;
+}
+
+/**
+ * Get the name of the lock a job runs under
+ */
+function getLockName(job: JobDefinition): string {
+	return job.lockName ?? job.name;
+}
+
+/**
+ * Take the lock of a job, unless another instance holds an unexpired lock
+ */
+async function acquireLock(job: JobDefinition): Promise<boolean> {
+	const now = new Date();
+	const expiresAt = addMinutes(now, LOCK_LEASE_MINUTES);
+
+	const [lock] = await db
+		.insert(jobLocks)
+		.values({ jobName: getLockName(job), instanceId, lockedAt: now, expiresAt })
+		.onConflictDoUpdate({
+			target: jobLocks.jobName,
+			set: { instanceId, lockedAt: now, expiresAt },
+			setWhere: lt(jobLocks.expiresAt, now)
+		})
+		.returning();
+
+	return !!lock;
+}
+
+/**
+ * Extend the lock of a job held by this instance, so it doesn't expire while the job is running
+ */
+async function renewLock(job: JobDefinition): Promise<void> {
+	await db
+		.update(jobLocks)
+		.set({ expiresAt: addMinutes(new Date(), LOCK_LEASE_MINUTES) })
+		.where(and(eq(jobLocks.jobName, getLockName(job)), eq(jobLocks.instanceId, instanceId)));
+}
+
+/**
+ * Fail the runs left running under a lock that was just taken
+ * Only the lock holder runs these jobs, so such runs belong to an instance that stopped mid-run
+ */
+async function failStaleRuns(job: JobDefinition): Promise<void> {
+	const lockName = getLockName(job);
+	const jobNames = jobDefinitions.filter((j) => getLockName(j) === lockName).map((j) => j.name);
+
+	await db
+		.update(jobRuns)
+		.set({
+			status: "failed",
+			error: "The instance running the job stopped before it finished",
+			completedAt: new Date()
+		})
+		.where(and(eq(jobRuns.status, "running"), inArray(jobRuns.jobName, jobNames)));
+}
+
+/**
+ * Release the lock of a job held by this instance
+ */
+async function releaseLock(job: JobDefinition): Promise<void> {
+	await db
+		.delete(jobLocks)
+		.where(and(eq(jobLocks.jobName, getLockName(job)), eq(jobLocks.instanceId, instanceId)));
+}
+
+/**
+ * Execute a claimed run and record its outcome, then release the job lock
+ * Never rejects: runs happen in the background, where nobody would handle the error
+ */
+async function executeRun(
+	job: JobDefinition,
+	runId: number,
+	startedAt: Date,
+	run: JobDefinition["run"]
+): Promise<void> {
+	const heartbeat = setInterval(() => {
+		renewLock(job).catch((error) =>
+			console.error(`[Jobs] Could not renew the lock of ${job.name}:`, error)
+		);
+	}, LOCK_RENEW_INTERVAL_MS);
+
+	let outcome: { status: JobRunStatus; result: string | null; error: string | null };
+	try {
+		const result = await run();
+		outcome = { status: "completed", result: result || null, error: null };
+	} catch (error) {
+		console.error(`[Jobs] ${job.name} failed:`, error);
+		outcome = {
+			status: "failed",
+			result: null,
+			error: error instanceof Error ? error.message : "Unknown error"
+		};
+	}
+
+	try {
+		const completedAt = new Date();
+		await db
+			.update(jobRuns)
+			.set({
+				...outcome,
+				completedAt,
+				durationMs: completedAt.getTime() - startedAt.getTime()
+			})
+			.where(eq(jobRuns.id, runId));
+	} catch (error) {
+		console.error(`[Jobs] Could not record the outcome of ${job.name} run ${runId}:`, error);
+	}
+
+	clearInterval(heartbeat);
+	await releaseLock(job).catch((error) =>
+		console.error(`[Jobs] Could not release the lock of ${job.name}:`, error)
+	);
+}
+
+/**
+ * Start a job in the background and record the run
+ * Returns null when the job or one sharing its lock is already running,
+ * or another instance claimed the scheduled slot
+ */
+export async function startJob(
+	name: string,
+	trigger: JobTrigger,
+	options: { scheduledFor?: Date; triggeredBy?: number; run?: JobDefinition["run"] } = {}
+): Promise<{ runId: number; finished: Promise<void> } | null> {
+	const job = getJobDefinition(name);
+	if (!job) {
+		throw new Error(`Unknown job: ${name}`);
+	}
+
+	if (!(await acquireLock(job))) {
+		console.log(`[Jobs] ${name} is already running, skipping`);
+		return null;
+	}
+
+	const startedAt = new Date();
+	let run;
+	try {
+		await failStaleRuns(job);
+
+		// A scheduled slot can only be claimed once across instances
+		[run] = await db
+			.insert(jobRuns)
+			.values({
+				jobName: name,
+				trigger,
+				scheduledFor: options.scheduledFor,
+				triggeredBy: options.triggeredBy,
+				status: "running",
+				instanceId,
+				startedAt
+			})
+			.onConflictDoNothing()
+			.returning();
+	} catch (error) {
+		await releaseLock(job);
+		throw error;
+	}
+
+	if (!run) {
+		await releaseLock(job);
+		return null;
+	}
+
+	return {
+		runId: run.id,
+		finished: executeRun(job, run.id, startedAt, options.run ?? job.run)
+	};
+}
+
+/**
+ * Run work by hand under a job's lock and wait for its result, e.g. an import started by an admin
+ * The run is recorded like any other run of the job
+ * Returns null when the job or one sharing its lock is already running
+ */
+export async function runJobTask<T>(
+	name: string,
+	triggeredBy: number,
+	task: () => Promise<T>,
+	summarize: (result: T) => string | void = () => undefined
+): Promise<{ result: T } | null> {
+	let outcome: { result: T } | { error: unknown } | undefined;
+
+	const started = await startJob(name, "manual", {
+		triggeredBy,
+		run: async () => {
+			try {
+				const result = await task();
+				outcome = { result };
+				return summarize(result);
+			} catch (error) {
+				outcome = { error };
+				throw error;
+			}
+		}
+	});
+	if (!started) return null;
+
+	await started.finished;
+
+	if (!outcome || "error" in outcome) {
+		throw outcome?.error ?? new Error(`${name} did not finish`);
+	}
+	return outcome;
+}
+
+/**
+ * Start the jobs whose schedule matches the current minute
+ */
+async function tick(): Promise<void> {
+	const slot = startOfMinute(new Date());
+
+	for (const job of jobDefinitions) {
+		if (!matchesCron(schedules.get(job.name)!, slot, DEFAULT_TIMEZONE)) continue;
+
+		// Jobs run in the background so a slow job doesn't delay the others
+		await startJob(job.name, "schedule", { scheduledFor: slot }).catch((error) =>
+			console.error(`[Jobs] Could not start ${job.name}:`, error)
+		);
+	}
+}
+
+/**
+ * Schedule the next tick at the start of the next minute
+ */
+function scheduleTick(): void {
+	const nextMinute = addMinutes(startOfMinute(new Date()), 1);
+
+	tickTimer = setTimeout(() => {
+		scheduleTick();
+		tick().catch((error) => console.error("[Jobs] Scheduler tick failed:", error));
+	}, nextMinute.getTime() - Date.now());
+}
+
+/**
+ * Start running the scheduled jobs in this instance
+ */
+export function startScheduler(): void {
+	if (tickTimer) clearTimeout(tickTimer);
+	scheduleTick();
+
+	console.log(`[Jobs] Scheduler started with ${jobDefinitions.length} jobs (${instanceId})`);
+}
+
+/**
+ * Stop running the scheduled jobs in this instance
+ */
+export function stopScheduler(): void {
+	if (tickTimer) clearTimeout(tickTimer);
+	tickTimer = null;
+}
@@ -0,0 +1,11 @@
+export type JobTrigger = "schedule" | "manual";
+
+export type JobRunStatus = "running" | "completed" | "failed";
+
+export interface JobDefinition {
+	name: string;
+	description: string;
+	schedule: string; // five field cron expression, in the scheduler timezone
+	lockName?: string; // jobs sharing a lock never run at the same time, defaults to the job name
+	run: () => Promise<string | void>; // returns a short summary of what was done
+}
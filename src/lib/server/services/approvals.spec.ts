@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// In-memory stand-in for the confirmed day query and the status update of a review
+const fake = vi.hoisted(() => {
+	type Entry = { id: number; userId: number; startTime: Date; endTime: Date; status: string };
+	type Row = { entry: Entry; caseId: number | null } & Record<string, unknown>;
+
+	const rows: Row[] = [];
+	const byIds = (ids: number[]) => rows.map((row) => row.entry).filter((e) => ids.includes(e.id));
+
+	// A select resolves to the joined rows, or to the entries of the ids given to where
+	function select(fields?: object) {
+		let ids: number[] = [];
+		const builder = {
+			from: () => builder,
+			innerJoin: () => builder,
+			leftJoin: () => builder,
+			where: (condition: unknown) => {
+				if (Array.isArray(condition)) ids = condition;
+				return builder;
+			},
+			orderBy: () => builder,
+			then: (resolve: (value: unknown) => void) =>
+				resolve(
+					fields ? rows.filter((row) => row.entry.status === "confirmed") : byIds(ids)
+				)
+		};
+		return builder;
+	}
+
+	const db = {
+		select,
+		update: () => ({
+			set: (values: Partial<Entry>) => ({
+				where: (ids: number[]) => ({
+					returning: async () => byIds(ids).map((e) => ({ ...Object.assign(e, values) }))
+				})
+			})
+		}),
+		insert: () => ({
+			values: (values: object) => ({ returning: async () => [{ id: 1, ...values }] })
+		}),
+		transaction: async <T>(fn: (tx: object) => Promise<T>): Promise<T> => fn(db)
+	};
+
+	return { db, rows };
+});
+
+vi.mock("$lib/server/db", () => ({ db: fake.db }));
+vi.mock("drizzle-orm", async (importOriginal) => ({
+	...(await importOriginal<typeof import("drizzle-orm")>()),
+	inArray: (_column: unknown, values: unknown[]) => values
+}));
+vi.mock("./hour-entries", () => ({ getUserTimezone: async () => "Europe/Helsinki" }));
+vi.mock("./period-locks", () => ({ isPeriodLocked: async () => false }));
+vi.mock("./entry-history", () => ({ recordEntryHistory: vi.fn() }));
+// Case 1 is managed by user 10, case 2 by user 20, case 3 has no manager
+vi.mock("./case-managers", () => ({
+	getEffectiveCaseManagers: async () =>
+		new Map([
+			[1, 10],
+			[2, 20]
+		])
+}));
+
+const { getApprovalQueue, approveDay, rejectDay } = await import("./approvals");
+
+const USER_ID = 1;
+const DAY = "2024-01-15";
+const firstManager = { id: 10, role: "manager" };
+const secondManager = { id: 20, role: "manager" };
+const admin = { id: 99, role: "admin" };
+
+function row(id: number, caseId: number | null, hour: number) {
+	return {
+		entry: {
+			id,
+			userId: USER_ID,
+			startTime: new Date(`${DAY}T0${hour}:00:00Z`),
+			endTime: new Date(`${DAY}T0${hour + 1}:00:00Z`),
+			status: "confirmed"
+		},
+		firstName: "Maija",
+		lastName: "Meikäläinen",
+		timezone: "Europe/Helsinki",
+		caseId
+	};
+}
+
+function statusOf(id: number) {
+	return fake.rows.find((r) => r.entry.id === id)!.entry.status;
+}
+
+describe("day approvals", () => {
+	beforeEach(() => {
+		fake.rows.length = 0;
+		fake.rows.push(row(1, 1, 6), row(2, 2, 7), row(3, 3, 8));
+	});
+
+	it("queues only the entries of the manager's own cases", async () => {
+		const [day] = await getApprovalQueue(firstManager);
+
+		expect(day.entries.map((e) => e.id)).toEqual([1]);
+		expect(day.totalMinutes).toBe(60);
+	});
+
+	it("approves only the entries of the approving manager's cases", async () => {
+		await approveDay(firstManager, USER_ID, DAY);
+
+		expect([statusOf(1), statusOf(2), statusOf(3)]).toEqual([
+			"approved",
+			"confirmed",
+			"confirmed"
+		]);
+		expect(await getApprovalQueue(firstManager)).toEqual([]);
+		expect((await getApprovalQueue(secondManager))[0].entries.map((e) => e.id)).toEqual([2]);
+	});
+
+	it("rejects only the entries of the rejecting manager's cases", async () => {
+		await rejectDay(secondManager, USER_ID, DAY, "Wrong phase");
+
+		expect([statusOf(1), statusOf(2), statusOf(3)]).toEqual([
+			"confirmed",
+			"draft",
+			"confirmed"
+		]);
+	});
+
+	it("leaves entries of cases without a manager to admins", async () => {
+		await approveDay(firstManager, USER_ID, DAY);
+		await approveDay(secondManager, USER_ID, DAY);
+		expect(statusOf(3)).toBe("confirmed");
+
+		await approveDay(admin, USER_ID, DAY);
+		expect(statusOf(3)).toBe("approved");
+	});
+
+	it("does not let a manager review their own day", async () => {
+		await expect(approveDay({ id: USER_ID, role: "manager" }, USER_ID, DAY)).rejects.toThrow(
+			"Not authorized to review this day"
+		);
+	});
+});
@@ -0,0 +1,287 @@
+import { db } from "$lib/server/db";
+import {
+	hourEntries,
+	dayReviews,
+	users,
+	phases,
+	cases,
+	customers,
+	worktypes,
+	type DayReview,
+	type DayReviewDecision
+} from "$lib/server/db/schema";
+import { eq, and, gte, lt, inArray, isNull, asc, desc } from "drizzle-orm";
+import { addDays, differenceInMinutes, parseISO } from "date-fns";
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+import { getUserTimezone } from "./hour-entries";
+import { isPeriodLocked } from "./period-locks";
+import { getEffectiveCaseManagers } from "./case-managers";
+import { recordEntryHistory } from "./entry-history";
+import { hasPermission } from "$lib/permissions";
+
+export interface Reviewer {
+	id: number;
+	role: string;
+}
+
+export interface ApprovalDay {
+	userId: number;
+	userName: string;
+	day: string; // yyyy-MM-dd in the user's timezone
+	totalMinutes: number;
+	entries: {
+		id: number;
+		startTime: Date;
+		endTime: Date | null;
+		description: string | null;
+		customerName: string | null;
+		caseName: string | null;
+		phaseName: string | null;
+		worktypeName: string | null;
+		managerId: number | null; // manager of the entry's case, who reviews it
+	}[];
+}
+
+/**
+ * Sum the logged minutes of entries
+ */
+function getTotalMinutes(entries: ApprovalDay["entries"]): number {
+	return entries.reduce(
+		(total, e) => total + (e.endTime ? differenceInMinutes(e.endTime, e.startTime) : 0),
+		0
+	);
+}
+
+/**
+ * Get confirmed days waiting for approval, optionally limited to one user's day
+ */
+async function getConfirmedDays(filter: { userId?: number; day?: string } = {}) {
+	const conditions = [
+		eq(hourEntries.status, "confirmed"),
+		eq(hourEntries.source, "inside"),
+		isNull(hourEntries.deletedAt)
+	];
+
+	if (filter.userId !== undefined) {
+		conditions.push(eq(hourEntries.userId, filter.userId));
+
+		if (filter.day) {
+			const timeZone = await getUserTimezone(filter.userId);
+
+			conditions.push(
+				gte(hourEntries.startTime, fromZonedTime(filter.day, timeZone)),
+				lt(hourEntries.startTime, fromZonedTime(addDays(parseISO(filter.day), 1), timeZone))
+			);
+		}
+	}
+
+	const rows = await db
+		.select({
+			entry: hourEntries,
+			firstName: users.firstName,
+			lastName: users.lastName,
+			timezone: users.timezone,
+			customerName: customers.name,
+			caseName: cases.name,
+			caseId: cases.id,
+			phaseName: phases.name,
+			worktypeName: worktypes.name
+		})
+		.from(hourEntries)
+		.innerJoin(users, eq(hourEntries.userId, users.id))
+		.leftJoin(phases, eq(hourEntries.phaseId, phases.id))
+		.leftJoin(cases, eq(phases.caseId, cases.id))
+		.leftJoin(customers, eq(cases.customerId, customers.id))
+		.leftJoin(worktypes, eq(hourEntries.worktypeId, worktypes.id))
+		.where(and(...conditions))
+		.orderBy(asc(hourEntries.startTime));
+
+	const caseIds = new Set(rows.flatMap((row) => (row.caseId ? [row.caseId] : [])));
+	const managers = await getEffectiveCaseManagers(Array.from(caseIds));
+
+	const days = new Map<string, ApprovalDay>();
+
+	for (const row of rows) {
+		const day = formatInTimeZone(row.entry.startTime, row.timezone, "yyyy-MM-dd");
+		const key = `${row.entry.userId}:${day}`;
+
+		if (!days.has(key)) {
+			days.set(key, {
+				userId: row.entry.userId,
+				userName: `${row.firstName} ${row.lastName}`,
+				day,
+				totalMinutes: 0,
+				entries: []
+			});
+		}
+
+		days.get(key)!.entries.push({
+			id: row.entry.id,
+			startTime: row.entry.startTime,
+			endTime: row.entry.endTime,
+			description: row.entry.description,
+			customerName: row.customerName,
+			caseName: row.caseName,
+			phaseName: row.phaseName,
+			worktypeName: row.worktypeName,
+			managerId: (row.caseId && managers.get(row.caseId)) || null
+		});
+	}
+
+	return Array.from(days.values()).map((day) => ({
+		...day,
+		totalMinutes: getTotalMinutes(day.entries)
+	}));
+}
+
+/**
+ * Get the part of a day a reviewer may approve or reject, null when there is none
+ * Admins review the whole day. Managers review the entries of the cases they manage, except on
+ * their own days, so a day touching cases of several managers is approved or rejected by each
+ * of them for their own entries and stays in the queue until every part has been reviewed.
+ * Entries of cases without a manager are left to admins
+ */
+function getReviewablePart(reviewer: Reviewer, day: ApprovalDay): ApprovalDay | null {
+	if (reviewer.role === "admin") return day;
+	if (!hasPermission(reviewer.role, "approve-hours") || day.userId === reviewer.id) return null;
+
+	const entries = day.entries.filter((e) => e.managerId === reviewer.id);
+	if (entries.length === 0) return null;
+
+	return { ...day, entries, totalMinutes: getTotalMinutes(entries) };
+}
+
+/**
+ * Get the parts of confirmed days a reviewer can approve, oldest first
+ */
+export async function getApprovalQueue(reviewer: Reviewer): Promise<ApprovalDay[]> {
+	const days = await getConfirmedDays();
+
+	return days
+		.flatMap((day) => getReviewablePart(reviewer, day) ?? [])
+		.sort((a, b) => a.day.localeCompare(b.day) || a.userName.localeCompare(b.userName));
+}
+
+/**
+ * Get the part of a confirmed day the reviewer is allowed to act on
+ */
+async function getReviewableDay(
+	reviewer: Reviewer,
+	userId: number,
+	day: string
+): Promise<ApprovalDay> {
+	const [group] = await getConfirmedDays({ userId, day });
+
+	if (!group) {
+		throw new Error("No confirmed entries waiting for approval on this day");
+	}
+	const part = getReviewablePart(reviewer, group);
+	if (!part) {
+		throw new Error("Not authorized to review this day");
+	}
+
+	return part;
+}
+
+/**
+ * Store the review and move the reviewer's entries of the day to their new status
+ * The actor is recorded as the reviewer, which is the admin when an admin views as a manager
+ */
+async function reviewDay(
+	reviewer: Reviewer,
+	userId: number,
+	day: string,
+	decision: DayReviewDecision,
+	comment: string | null,
+	actorId: number
+): Promise<DayReview> {
+	const group = await getReviewableDay(reviewer, userId, day);
+
+	const timeZone = await getUserTimezone(userId);
+	if (await isPeriodLocked(userId, group.entries[0].startTime, timeZone)) {
+		throw new Error("Month of the day is locked");
+	}
+
+	const entryIds = group.entries.map((e) => e.id);
+
+	return db.transaction(async (tx) => {
+		const before = await tx.select().from(hourEntries).where(inArray(hourEntries.id, entryIds));
+		const after = await tx
+			.update(hourEntries)
+			.set({ status: decision === "approved" ? "approved" : "draft", updatedAt: new Date() })
+			.where(inArray(hourEntries.id, entryIds))
+			.returning();
+
+		const beforeById = new Map(before.map((e) => [e.id, e]));
+		await recordEntryHistory(
+			actorId,
+			after.map((entry) => ({
+				event: decision === "approved" ? "approve" : "reject",
+				before: beforeById.get(entry.id),
+				after: entry,
+				reason: comment
+			})),
+			tx
+		);
+
+		const [review] = await tx
+			.insert(dayReviews)
+			.values({ userId, day, decision, comment, reviewedBy: actorId })
+			.returning();
+
+		return review;
+	});
+}
+
+/**
+ * Approve the reviewer's part of a confirmed day, making its entries eligible for the Visma export
+ */
+export async function approveDay(
+	reviewer: Reviewer,
+	userId: number,
+	day: string,
+	comment?: string | null,
+	actorId = reviewer.id
+): Promise<DayReview> {
+	return reviewDay(reviewer, userId, day, "approved", comment?.trim() || null, actorId);
+}
+
+/**
+ * Reject the reviewer's part of a confirmed day, returning its entries to draft with a comment
+ * for the user
+ */
+export async function rejectDay(
+	reviewer: Reviewer,
+	userId: number,
+	day: string,
+	comment: string,
+	actorId = reviewer.id
+): Promise<DayReview> {
+	const trimmed = comment.trim();
+	if (!trimmed) {
+		throw new Error("Tell the user what needs to change");
+	}
+
+	return reviewDay(reviewer, userId, day, "rejected", trimmed, actorId);
+}
+
+/**
+ * Get the latest review of a user's day with the reviewer's name
+ */
+export async function getLatestDayReview(userId: number, day: string) {
+	const [row] = await db
+		.select({
+			review: dayReviews,
+			firstName: users.firstName,
+			lastName: users.lastName
+		})
+		.from(dayReviews)
+		.innerJoin(users, eq(dayReviews.reviewedBy, users.id))
+		.where(and(eq(dayReviews.userId, userId), eq(dayReviews.day, day)))
+		.orderBy(desc(dayReviews.createdAt))
+		.limit(1);
+
+	if (!row) return null;
+
+	return { ...row.review, reviewerName: `${row.firstName} ${row.lastName}` };
+}
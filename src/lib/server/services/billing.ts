@@ -0,0 +1,167 @@
+import { db } from "$lib/server/db";
+import { phases, cases, roundingRules, type HourEntry } from "$lib/server/db/schema";
+import { DEFAULT_TIMEZONE } from "$lib/constants";
+import { eq, inArray } from "drizzle-orm";
+import {
+	applyHoursBalanceRounding,
+	getRoundedDurationMinutes,
+	DEFAULT_ROUNDING_CONFIG,
+	type RoundedEntry,
+	type RoundingConfig
+} from "./rounding";
+import {
+	applyMinimumBilling,
+	getMinBillingDurationMinutes,
+	type MinimumBillingEntry
+} from "./minimum-billing";
+import { getHourEntriesForDay, getUserTimezone, calculateTotalMinutes } from "./hour-entries";
+import { resolveRoundingConfig } from "./rounding-rules";
+
+export interface BillableEntries {
+	rounded: RoundedEntry[];
+	padding: MinimumBillingEntry[];
+}
+
+export interface BillingPreview {
+	entries: (RoundedEntry & { phaseName: string | null; overlapping: boolean })[];
+	padding: (MinimumBillingEntry & { caseName: string; minBillableTimeInMin: number })[];
+	loggedMinutes: number;
+	billedMinutes: number;
+}
+
+interface PhaseBillingInfo {
+	caseId: number;
+	caseName: string;
+	customerId: number;
+	minBillableTimeInMin: number;
+	roundingConfig: RoundingConfig;
+}
+
+/**
+ * Load case, customer and rounding info for the given phases
+ */
+async function getPhaseBillingInfo(phaseIds: number[]): Promise<Map<number, PhaseBillingInfo>> {
+	const map = new Map<number, PhaseBillingInfo>();
+	if (phaseIds.length === 0) return map;
+
+	const rows = await db
+		.select({
+			phaseId: phases.id,
+			caseId: cases.id,
+			caseName: cases.name,
+			customerId: cases.customerId,
+			minBillableTimeInMin: cases.minBillableTimeInMin
+		})
+		.from(phases)
+		.innerJoin(cases, eq(phases.caseId, cases.id))
+		.where(inArray(phases.id, phaseIds));
+
+	const rules = await db.select().from(roundingRules);
+
+	for (const row of rows) {
+		map.set(row.phaseId, {
+			caseId: row.caseId,
+			caseName: row.caseName,
+			customerId: row.customerId,
+			minBillableTimeInMin: row.minBillableTimeInMin ?? 0,
+			roundingConfig: resolveRoundingConfig(rules, row.caseId, row.customerId)
+		});
+	}
+
+	return map;
+}
+
+/**
+ * Run the rounding and minimum billing algorithms with already loaded phase info
+ */
+function calculateWithBillingInfo(
+	entries: HourEntry[],
+	billingInfo: Map<number, PhaseBillingInfo>,
+	timeZone: string
+): BillableEntries {
+	const getCustomerId = (phaseId: number | null) =>
+		phaseId !== null ? (billingInfo.get(phaseId)?.customerId ?? null) : null;
+
+	const getCaseConfig = (phaseId: number | null) => {
+		const info = phaseId !== null ? billingInfo.get(phaseId) : undefined;
+		if (!info) return null;
+		return { caseId: info.caseId, minBillableTimeInMin: info.minBillableTimeInMin };
+	};
+
+	const getRoundingConfig = (phaseId: number | null) =>
+		(phaseId !== null ? billingInfo.get(phaseId)?.roundingConfig : undefined) ??
+		DEFAULT_ROUNDING_CONFIG;
+
+	const rounded = applyHoursBalanceRounding(entries, getCustomerId, getRoundingConfig);
+
+	const getNextEntryStart = (afterTime: Date, excludeEntryIds: number[]) => {
+		const next = rounded
+			.filter((e) => e.startTime >= afterTime && !excludeEntryIds.includes(e.hourEntryId))
+			.sort((a, b) => a.startTime.getTime() - b.startTime.getTime())[0];
+		return next?.startTime ?? null;
+	};
+
+	const padding = applyMinimumBilling(rounded, getCaseConfig, getNextEntryStart, timeZone);
+
+	return { rounded, padding };
+}
+
+/**
+ * Get the distinct phase IDs referenced by the entries
+ */
+function getPhaseIds(entries: HourEntry[]): number[] {
+	return [...new Set(entries.map((e) => e.phaseId).filter((id) => id !== null))];
+}
+
+/**
+ * Run the hours balance rounding and minimum billing algorithms for one user's day
+ * Returns the rounded entries and the padding entries needed to meet case minimums
+ */
+export async function calculateBillableEntries(
+	entries: HourEntry[],
+	timeZone: string = DEFAULT_TIMEZONE
+): Promise<BillableEntries> {
+	const billingInfo = await getPhaseBillingInfo(getPhaseIds(entries));
+	return calculateWithBillingInfo(entries, billingInfo, timeZone);
+}
+
+/**
+ * Preview what a user's day will be billed as once it is exported
+ */
+export async function getDayBillingPreview(userId: number, date: Date): Promise<BillingPreview> {
+	const timeZone = await getUserTimezone(userId);
+	// Hours entered in Visma are already billed there
+	const entries = (await getHourEntriesForDay(userId, date, timeZone)).filter(
+		(e) => e.source === "inside"
+	);
+	const billingInfo = await getPhaseBillingInfo(getPhaseIds(entries));
+	const { rounded, padding } = calculateWithBillingInfo(entries, billingInfo, timeZone);
+
+	const phaseNames = new Map(entries.map((e) => [e.id, e.phase?.name ?? null]));
+
+	const previewEntries = rounded.map((r) => ({
+		...r,
+		phaseName: phaseNames.get(r.hourEntryId) ?? null,
+		overlapping: r.source === "inside-rounded-overlapping"
+	}));
+
+	const previewPadding = padding.map((p) => {
+		const info = p.phaseId !== null ? billingInfo.get(p.phaseId) : undefined;
+		return {
+			...p,
+			caseName: info?.caseName ?? "",
+			minBillableTimeInMin: info?.minBillableTimeInMin ?? 0
+		};
+	});
+
+	const billedMinutes =
+		rounded.reduce((total, r) => total + getRoundedDurationMinutes(r), 0) +
+		padding.reduce((total, p) => total + getMinBillingDurationMinutes(p), 0);
+
+	return {
+		entries: previewEntries,
+		padding: previewPadding,
+		loggedMinutes: calculateTotalMinutes(entries),
+		billedMinutes
+	};
+}
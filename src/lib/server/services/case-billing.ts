@@ -0,0 +1,163 @@
+import { db } from "$lib/server/db";
+import { customers, cases, users, minBillableTimeChanges } from "$lib/server/db/schema";
+import { eq, and, asc, desc } from "drizzle-orm";
+
+/**
+ * Validate a minimum billable time value
+ */
+function validateMinutes(minutes: number): void {
+	if (!Number.isInteger(minutes) || minutes < 0 || minutes > 24 * 60) {
+		throw new Error("Minimum billable time must be between 0 and 1440 minutes");
+	}
+}
+
+/**
+ * Get active customers with their open cases and minimum billable times
+ */
+export async function getCaseBillingSettings() {
+	const rows = await db
+		.select({
+			customer: {
+				id: customers.id,
+				name: customers.name,
+				defaultMinBillableTimeInMin: customers.defaultMinBillableTimeInMin
+			},
+			case: {
+				id: cases.id,
+				name: cases.name,
+				minBillableTimeInMin: cases.minBillableTimeInMin
+			}
+		})
+		.from(customers)
+		.leftJoin(cases, and(eq(cases.customerId, customers.id), eq(cases.closed, false)))
+		.where(eq(customers.active, true))
+		.orderBy(asc(customers.name), asc(cases.name));
+
+	const byCustomer = new Map<
+		number,
+		{
+			id: number;
+			name: string;
+			defaultMinBillableTimeInMin: number;
+			cases: { id: number; name: string; minBillableTimeInMin: number }[];
+		}
+	>();
+
+	for (const row of rows) {
+		if (!byCustomer.has(row.customer.id)) {
+			byCustomer.set(row.customer.id, {
+				id: row.customer.id,
+				name: row.customer.name,
+				defaultMinBillableTimeInMin: row.customer.defaultMinBillableTimeInMin ?? 0,
+				cases: []
+			});
+		}
+		if (row.case) {
+			byCustomer.get(row.customer.id)!.cases.push({
+				id: row.case.id,
+				name: row.case.name,
+				minBillableTimeInMin: row.case.minBillableTimeInMin ?? 0
+			});
+		}
+	}
+
+	return Array.from(byCustomer.values());
+}
+
+/**
+ * Set the minimum billable time of a case and record the change
+ */
+export async function updateCaseMinBillableTime(
+	caseId: number,
+	minutes: number,
+	changedBy: number
+): Promise<void> {
+	validateMinutes(minutes);
+
+	await db.transaction(async (tx) => {
+		const [existing] = await tx.select().from(cases).where(eq(cases.id, caseId)).limit(1);
+		if (!existing) {
+			throw new Error("Case not found");
+		}
+
+		if (existing.minBillableTimeInMin === minutes) return;
+
+		await tx
+			.update(cases)
+			.set({ minBillableTimeInMin: minutes, updatedAt: new Date() })
+			.where(eq(cases.id, caseId));
+
+		await tx.insert(minBillableTimeChanges).values({
+			caseId,
+			previousValue: existing.minBillableTimeInMin,
+			newValue: minutes,
+			changedBy
+		});
+	});
+}
+
+/**
+ * Set the default minimum billable time of a customer and record the change
+ * New cases of the customer inherit the default when they are imported
+ */
+export async function updateCustomerMinBillableTime(
+	customerId: number,
+	minutes: number,
+	changedBy: number
+): Promise<void> {
+	validateMinutes(minutes);
+
+	await db.transaction(async (tx) => {
+		const [existing] = await tx
+			.select()
+			.from(customers)
+			.where(eq(customers.id, customerId))
+			.limit(1);
+		if (!existing) {
+			throw new Error("Customer not found");
+		}
+
+		if (existing.defaultMinBillableTimeInMin === minutes) return;
+
+		await tx
+			.update(customers)
+			.set({ defaultMinBillableTimeInMin: minutes, updatedAt: new Date() })
+			.where(eq(customers.id, customerId));
+
+		await tx.insert(minBillableTimeChanges).values({
+			customerId,
+			previousValue: existing.defaultMinBillableTimeInMin,
+			newValue: minutes,
+			changedBy
+		});
+	});
+}
+
+/**
+ * Get the most recent minimum billable time changes
+ */
+export async function getMinBillableTimeHistory(limit = 50) {
+	const rows = await db
+		.select({
+			change: minBillableTimeChanges,
+			caseName: cases.name,
+			customerName: customers.name,
+			changedByFirstName: users.firstName,
+			changedByLastName: users.lastName
+		})
+		.from(minBillableTimeChanges)
+		.leftJoin(cases, eq(minBillableTimeChanges.caseId, cases.id))
+		.leftJoin(customers, eq(minBillableTimeChanges.customerId, customers.id))
+		.leftJoin(users, eq(minBillableTimeChanges.changedBy, users.id))
+		.orderBy(desc(minBillableTimeChanges.changedAt))
+		.limit(limit);
+
+	return rows.map((row) => ({
+		...row.change,
+		caseName: row.caseName,
+		customerName: row.customerName,
+		changedByName: row.changedByFirstName
+			? `${row.changedByFirstName} ${row.changedByLastName}`
+			: null
+	}));
+}
@@ -0,0 +1,167 @@
+import { db } from "$lib/server/db";
+import { customers, cases, users } from "$lib/server/db/schema";
+import { eq, and, asc, inArray } from "drizzle-orm";
+import { alias, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { getRolesWithPermission, hasPermission } from "$lib/permissions";
+
+/**
+ * Condition for users who can manage cases: active, with a role that can approve hours
+ */
+function canManage(user: { active: AnyPgColumn; role: AnyPgColumn }) {
+	return and(eq(user.active, true), inArray(user.role, getRolesWithPermission("approve-hours")));
+}
+
+/**
+ * Get the manager responsible for each case
+ * An admin assigned case manager wins over the project owner imported from Visma,
+ * which wins over the customer's manager. The owner and the customer's manager are
+ * skipped when they can't manage cases, e.g. after leaving or changing roles
+ */
+export async function getEffectiveCaseManagers(
+	caseIds: number[]
+): Promise<Map<number, number | null>> {
+	if (caseIds.length === 0) return new Map();
+
+	const owners = alias(users, "case_owners");
+	const customerManagers = alias(users, "customer_managers");
+
+	const rows = await db
+		.select({
+			caseId: cases.id,
+			managerId: cases.managerId,
+			ownerId: owners.id,
+			customerManagerId: customerManagers.id
+		})
+		.from(cases)
+		.innerJoin(customers, eq(cases.customerId, customers.id))
+		.leftJoin(owners, and(eq(owners.vismaGuid, cases.ownerVismaGuid), canManage(owners)))
+		.leftJoin(
+			customerManagers,
+			and(eq(customerManagers.id, customers.managerId), canManage(customerManagers))
+		)
+		.where(inArray(cases.id, caseIds));
+
+	return new Map(
+		rows.map((row) => [row.caseId, row.managerId ?? row.ownerId ?? row.customerManagerId])
+	);
+}
+
+/**
+ * Get the users who can be assigned as managers
+ */
+export async function getManagerCandidates() {
+	return db
+		.select({
+			id: users.id,
+			firstName: users.firstName,
+			lastName: users.lastName,
+			role: users.role
+		})
+		.from(users)
+		.where(canManage(users))
+		.orderBy(asc(users.lastName), asc(users.firstName));
+}
+
+/**
+ * Get active customers with their open cases and who manages them
+ */
+export async function getCaseManagerSettings() {
+	const owners = alias(users, "case_owners");
+
+	const rows = await db
+		.select({
+			customer: {
+				id: customers.id,
+				name: customers.name,
+				managerId: customers.managerId
+			},
+			case: {
+				id: cases.id,
+				name: cases.name,
+				managerId: cases.managerId
+			},
+			ownerId: owners.id,
+			ownerFirstName: owners.firstName,
+			ownerLastName: owners.lastName
+		})
+		.from(customers)
+		.leftJoin(cases, and(eq(cases.customerId, customers.id), eq(cases.closed, false)))
+		.leftJoin(owners, and(eq(owners.vismaGuid, cases.ownerVismaGuid), canManage(owners)))
+		.where(eq(customers.active, true))
+		.orderBy(asc(customers.name), asc(cases.name));
+
+	const byCustomer = new Map<
+		number,
+		{
+			id: number;
+			name: string;
+			managerId: number | null;
+			cases: {
+				id: number;
+				name: string;
+				managerId: number | null;
+				owner: { id: number; name: string } | null;
+			}[];
+		}
+	>();
+
+	for (const row of rows) {
+		if (!byCustomer.has(row.customer.id)) {
+			byCustomer.set(row.customer.id, { ...row.customer, cases: [] });
+		}
+		if (row.case) {
+			byCustomer.get(row.customer.id)!.cases.push({
+				...row.case,
+				owner: row.ownerId
+					? { id: row.ownerId, name: `${row.ownerFirstName} ${row.ownerLastName}` }
+					: null
+			});
+		}
+	}
+
+	return Array.from(byCustomer.values());
+}
+
+/**
+ * Check that a user can be assigned as a manager
+ */
+async function validateManager(managerId: number | null): Promise<void> {
+	if (managerId === null) return;
+
+	const [manager] = await db
+		.select({ role: users.role, active: users.active })
+		.from(users)
+		.where(eq(users.id, managerId))
+		.limit(1);
+
+	if (!manager || !manager.active) {
+		throw new Error("Manager not found");
+	}
+	if (!hasPermission(manager.role, "approve-hours")) {
+		throw new Error("Only users who can approve hours can manage cases");
+	}
+}
+
+/**
+ * Assign a manager to a case, or clear it to fall back to the Visma owner
+ */
+export async function setCaseManager(caseId: number, managerId: number | null): Promise<void> {
+	await validateManager(managerId);
+
+	await db.update(cases).set({ managerId, updatedAt: new Date() }).where(eq(cases.id, caseId));
+}
+
+/**
+ * Assign a manager to a customer's cases that have no manager of their own
+ */
+export async function setCustomerManager(
+	customerId: number,
+	managerId: number | null
+): Promise<void> {
+	await validateManager(managerId);
+
+	await db
+		.update(customers)
+		.set({ managerId, updatedAt: new Date() })
+		.where(eq(customers.id, customerId));
+}
@@ -0,0 +1,520 @@
+import { db } from "$lib/server/db";
+import {
+	correctionRequests,
+	hourEntries,
+	users,
+	phases,
+	type CorrectionAction,
+	type CorrectionRequest,
+	type CorrectionStatus,
+	type HourEntry
+} from "$lib/server/db/schema";
+import { vismaClient } from "$lib/server/integrations/visma";
+import { eq, and, ne, gte, lt, inArray, isNull, asc, desc } from "drizzle-orm";
+import { addDays, addMilliseconds, parseISO } from "date-fns";
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+import {
+	ErrorCodes,
+	HourEntryError,
+	getUserTimezone,
+	validatePhase,
+	validateStartEnd,
+	validateWorktype
+} from "./hour-entries";
+import { deriveBillableEntries, loadGuidMaps, toVismaWorkHour } from "./visma-export";
+import { isPeriodLocked } from "./period-locks";
+import { recordEntryHistory } from "./entry-history";
+
+export interface CorrectionInput {
+	hourEntryId: number;
+	action: CorrectionAction;
+	startTime?: Date;
+	endTime?: Date;
+	description?: string | null;
+	phaseId?: number;
+	worktypeId?: number;
+	reason: string;
+}
+
+/**
+ * Get the local day of an entry in the user's timezone as yyyy-MM-dd
+ */
+function getDayKey(date: Date, timeZone: string): string {
+	return formatInTimeZone(date, timeZone, "yyyy-MM-dd");
+}
+
+/**
+ * Request a change to, or the removal of, an entry that has already been exported to Visma
+ * Nothing changes until an admin approves the request
+ */
+export async function requestCorrection(
+	userId: number,
+	input: CorrectionInput,
+	actorId: number = userId
+): Promise<CorrectionRequest> {
+	const [entry] = await db
+		.select()
+		.from(hourEntries)
+		.where(and(eq(hourEntries.id, input.hourEntryId), isNull(hourEntries.deletedAt)))
+		.limit(1);
+
+	if (!entry) {
+		throw new HourEntryError("Hour entry not found", ErrorCodes.ENTRY_NOT_FOUND);
+	}
+
+	if (entry.userId !== userId) {
+		throw new HourEntryError("Not authorized to correct this entry", ErrorCodes.NOT_OWNER);
+	}
+
+	if (entry.source !== "inside" || entry.status !== "synced") {
+		throw new HourEntryError(
+			"Only entries exported to Visma need a correction",
+			ErrorCodes.NOT_SYNCED
+		);
+	}
+
+	const timeZone = await getUserTimezone(userId);
+	if (await isPeriodLocked(userId, entry.startTime, timeZone)) {
+		throw new HourEntryError(
+			"Cannot correct entries in a locked month",
+			ErrorCodes.PERIOD_LOCKED,
+			entry.id
+		);
+	}
+
+	const reason = input.reason.trim();
+	if (!reason) {
+		throw new HourEntryError(
+			"Tell the reviewer why the entry needs correcting",
+			ErrorCodes.MISSING_REQUIRED_FIELD,
+			entry.id,
+			"reason"
+		);
+	}
+
+	const [pending] = await db
+		.select({ id: correctionRequests.id })
+		.from(correctionRequests)
+		.where(
+			and(
+				eq(correctionRequests.hourEntryId, entry.id),
+				eq(correctionRequests.status, "pending")
+			)
+		)
+		.limit(1);
+
+	if (pending) {
+		throw new HourEntryError(
+			"A correction of this entry is already waiting for review",
+			ErrorCodes.CORRECTION_PENDING,
+			entry.id
+		);
+	}
+
+	if (input.action === "delete") {
+		const [created] = await db
+			.insert(correctionRequests)
+			.values({
+				hourEntryId: entry.id,
+				userId,
+				action: "delete",
+				reason,
+				requestedBy: actorId
+			})
+			.returning();
+		return created;
+	}
+
+	const proposed = {
+		startTime: input.startTime ?? entry.startTime,
+		endTime: input.endTime ?? entry.endTime,
+		description: input.description !== undefined ? input.description : entry.description,
+		phaseId: input.phaseId ?? entry.phaseId,
+		worktypeId: input.worktypeId ?? entry.worktypeId
+	};
+
+	if (!proposed.endTime) {
+		throw new HourEntryError(
+			"Entry must have an end time",
+			ErrorCodes.MISSING_END_TIME,
+			entry.id,
+			"endTime"
+		);
+	}
+	validateStartEnd(proposed.startTime, proposed.endTime);
+
+	// Corrections are applied day by day, so the entry can't move to another day
+	const day = getDayKey(entry.startTime, timeZone);
+	if (
+		getDayKey(proposed.startTime, timeZone) !== day ||
+		getDayKey(addMilliseconds(proposed.endTime, -1), timeZone) !== day
+	) {
+		throw new HourEntryError(
+			"A correction must stay on the same day",
+			ErrorCodes.INVALID_TIME_RANGE,
+			entry.id
+		);
+	}
+
+	if (proposed.phaseId !== entry.phaseId && proposed.phaseId) {
+		await validatePhase(proposed.phaseId);
+	}
+	if (proposed.worktypeId !== entry.worktypeId && proposed.worktypeId) {
+		await validateWorktype(proposed.worktypeId);
+	}
+
+	const unchanged =
+		proposed.startTime.getTime() === entry.startTime.getTime() &&
+		proposed.endTime.getTime() === entry.endTime?.getTime() &&
+		proposed.description === entry.description &&
+		proposed.phaseId === entry.phaseId &&
+		proposed.worktypeId === entry.worktypeId;
+	if (unchanged) {
+		throw new HourEntryError(
+			"The correction doesn't change anything",
+			ErrorCodes.MISSING_REQUIRED_FIELD,
+			entry.id
+		);
+	}
+
+	const [created] = await db
+		.insert(correctionRequests)
+		.values({
+			hourEntryId: entry.id,
+			userId,
+			action: "update",
+			reason,
+			requestedBy: actorId,
+			...proposed
+		})
+		.returning();
+
+	return created;
+}
+
+/**
+ * Get the ids of the given entries that have a correction waiting for review
+ */
+export async function getPendingCorrectionEntryIds(entryIds: number[]): Promise<number[]> {
+	if (entryIds.length === 0) return [];
+
+	const rows = await db
+		.select({ hourEntryId: correctionRequests.hourEntryId })
+		.from(correctionRequests)
+		.where(
+			and(
+				inArray(correctionRequests.hourEntryId, entryIds),
+				eq(correctionRequests.status, "pending")
+			)
+		);
+
+	return rows.map((row) => row.hourEntryId);
+}
+
+/**
+ * Get correction requests with the entry as it is now, newest first
+ */
+export async function getCorrectionRequests(status?: CorrectionStatus, limit = 100) {
+	const rows = await db
+		.select({
+			request: correctionRequests,
+			entry: hourEntries,
+			firstName: users.firstName,
+			lastName: users.lastName
+		})
+		.from(correctionRequests)
+		.innerJoin(hourEntries, eq(correctionRequests.hourEntryId, hourEntries.id))
+		.innerJoin(users, eq(correctionRequests.userId, users.id))
+		.where(status ? eq(correctionRequests.status, status) : undefined)
+		.orderBy(desc(correctionRequests.createdAt))
+		.limit(limit);
+
+	const phaseIds = new Set<number>();
+	for (const { request, entry } of rows) {
+		for (const id of [request.phaseId, request.originalPhaseId, entry.phaseId]) {
+			if (id) phaseIds.add(id);
+		}
+	}
+	const phaseNames = new Map(
+		phaseIds.size > 0
+			? (
+					await db
+						.select({ id: phases.id, name: phases.name })
+						.from(phases)
+						.where(inArray(phases.id, Array.from(phaseIds)))
+				).map((p) => [p.id, p.name])
+			: []
+	);
+	const phaseName = (id: number | null) => (id ? (phaseNames.get(id) ?? null) : null);
+
+	return rows.map(({ request, entry, firstName, lastName }) => ({
+		...request,
+		userName: `${firstName} ${lastName}`,
+		phaseName: phaseName(request.phaseId),
+		originalPhaseName: phaseName(request.originalPhaseId),
+		entry: {
+			startTime: entry.startTime,
+			endTime: entry.endTime,
+			description: entry.description,
+			phaseName: phaseName(entry.phaseId),
+			deletedAt: entry.deletedAt
+		}
+	}));
+}
+
+/**
+ * Get a correction request an admin can still act on
+ */
+async function getOpenRequest(requestId: number): Promise<CorrectionRequest> {
+	const [request] = await db
+		.select()
+		.from(correctionRequests)
+		.where(eq(correctionRequests.id, requestId))
+		.limit(1);
+
+	if (!request) {
+		throw new Error("Correction request not found");
+	}
+	// A failed request can be approved again once the problem is fixed
+	if (request.status !== "pending" && request.status !== "failed") {
+		throw new Error(`Correction request is already ${request.status}`);
+	}
+
+	return request;
+}
+
+/**
+ * Reject a correction request, leaving the entry as it was
+ */
+export async function rejectCorrection(
+	requestId: number,
+	reviewerId: number,
+	note?: string | null
+): Promise<void> {
+	await getOpenRequest(requestId);
+
+	await db
+		.update(correctionRequests)
+		.set({
+			status: "rejected",
+			reviewedBy: reviewerId,
+			reviewedAt: new Date(),
+			reviewNote: note || null,
+			updatedAt: new Date()
+		})
+		.where(eq(correctionRequests.id, requestId));
+}
+
+/**
+ * Approve a correction and apply it to Visma and the local rows
+ * The day's billable rows are derived again from the corrected entries; existing Visma work
+ * hours are patched in order, extra ones deleted and missing ones created. The replaced rows
+ * are soft-deleted and the entry's previous values kept on the request
+ */
+export async function approveCorrection(
+	requestId: number,
+	reviewerId: number,
+	note?: string | null
+): Promise<CorrectionRequest> {
+	const request = await getOpenRequest(requestId);
+
+	try {
+		const [entry] = await db
+			.select()
+			.from(hourEntries)
+			.where(and(eq(hourEntries.id, request.hourEntryId), isNull(hourEntries.deletedAt)))
+			.limit(1);
+		if (!entry || entry.status !== "synced") {
+			throw new Error("Hour entry is no longer a synced entry");
+		}
+
+		const timeZone = await getUserTimezone(entry.userId);
+		const day = getDayKey(entry.startTime, timeZone);
+		if (await isPeriodLocked(entry.userId, entry.startTime, timeZone)) {
+			throw new Error("Month of the entry is locked, unlock it before applying corrections");
+		}
+
+		// Only the exported entries make up the day in Visma, including the corrected one;
+		// entries added since then go out with the next export
+		const dayEntries = await db
+			.select()
+			.from(hourEntries)
+			.where(
+				and(
+					eq(hourEntries.userId, entry.userId),
+					eq(hourEntries.source, "inside"),
+					eq(hourEntries.status, "synced"),
+					gte(hourEntries.startTime, fromZonedTime(day, timeZone)),
+					lt(hourEntries.startTime, fromZonedTime(addDays(parseISO(day), 1), timeZone)),
+					isNull(hourEntries.deletedAt)
+				)
+			);
+
+		const previousRows = await db
+			.select()
+			.from(hourEntries)
+			.where(
+				and(
+					inArray(
+						hourEntries.originalHourEntryId,
+						dayEntries.map((e) => e.id)
+					),
+					ne(hourEntries.source, "inside"),
+					isNull(hourEntries.deletedAt)
+				)
+			)
+			.orderBy(asc(hourEntries.startTime));
+
+		const corrected: HourEntry | null =
+			request.action === "delete"
+				? null
+				: {
+						...entry,
+						startTime: request.startTime!,
+						endTime: request.endTime,
+						description: request.description,
+						phaseId: request.phaseId,
+						worktypeId: request.worktypeId
+					};
+		const correctedDay = dayEntries.flatMap((e) =>
+			e.id !== entry.id ? [e] : corrected ? [corrected] : []
+		);
+
+		const nextRows = (await deriveBillableEntries(correctedDay, timeZone)).sort(
+			(a, b) => a.startTime.getTime() - b.startTime.getTime()
+		);
+
+		// Check every row can be sent before touching Visma
+		const guidMaps = await loadGuidMaps();
+		const userGuid = guidMaps.users.get(entry.userId);
+		const payloads = nextRows.map((row) => {
+			const phaseGuid = row.phaseId ? guidMaps.phases.get(row.phaseId) : undefined;
+			const worktypeGuid = row.worktypeId
+				? guidMaps.worktypes.get(row.worktypeId)
+				: undefined;
+			if (!userGuid || !phaseGuid || !worktypeGuid || !row.endTime) {
+				throw new Error("Corrected entry is not linked to Visma");
+			}
+			return toVismaWorkHour(
+				{
+					startTime: row.startTime,
+					endTime: row.endTime,
+					description: row.description ?? null
+				},
+				{ userGuid, phaseGuid, worktypeGuid }
+			);
+		});
+
+		// Each Visma change is saved right away, so approving a failed request again picks up
+		// where it stopped instead of creating the same work hours twice
+		for (let i = 0; i < Math.max(previousRows.length, nextRows.length); i++) {
+			const previous = previousRows[i];
+			const next = nextRows[i];
+
+			if (next && previous?.vismaGuid) {
+				await vismaClient.updateWorkHour(previous.vismaGuid, payloads[i]);
+				await db
+					.update(hourEntries)
+					.set({
+						startTime: next.startTime,
+						endTime: next.endTime,
+						description: next.description,
+						issueCode: next.issueCode,
+						phaseId: next.phaseId,
+						worktypeId: next.worktypeId,
+						originalHourEntryId: next.originalHourEntryId,
+						updatedAt: new Date()
+					})
+					.where(eq(hourEntries.id, previous.id));
+			} else if (next) {
+				const created = await vismaClient.createWorkHour(payloads[i]);
+				await db
+					.insert(hourEntries)
+					.values({ ...next, status: "synced", vismaGuid: created.guid ?? null });
+				if (previous) {
+					await db
+						.update(hourEntries)
+						.set({ deletedAt: new Date(), updatedAt: new Date() })
+						.where(eq(hourEntries.id, previous.id));
+				}
+			} else if (previous) {
+				if (previous.vismaGuid) {
+					await vismaClient.deleteWorkHour(previous.vismaGuid);
+				}
+				await db
+					.update(hourEntries)
+					.set({ deletedAt: new Date(), updatedAt: new Date() })
+					.where(eq(hourEntries.id, previous.id));
+			}
+		}
+
+		return await db.transaction(async (tx) => {
+			await tx
+				.update(hourEntries)
+				.set(
+					corrected
+						? {
+								startTime: corrected.startTime,
+								endTime: corrected.endTime,
+								description: corrected.description,
+								phaseId: corrected.phaseId,
+								worktypeId: corrected.worktypeId,
+								updatedAt: new Date()
+							}
+						: { deletedAt: new Date(), updatedAt: new Date() }
+				)
+				.where(eq(hourEntries.id, entry.id));
+
+			await recordEntryHistory(
+				reviewerId,
+				[
+					corrected
+						? {
+								event: "update",
+								before: entry,
+								after: corrected,
+								reason: request.reason
+							}
+						: { event: "delete", before: entry, reason: request.reason }
+				],
+				tx
+			);
+
+			const [approved] = await tx
+				.update(correctionRequests)
+				.set({
+					status: "approved",
+					originalStartTime: entry.startTime,
+					originalEndTime: entry.endTime,
+					originalDescription: entry.description,
+					originalPhaseId: entry.phaseId,
+					originalWorktypeId: entry.worktypeId,
+					reviewedBy: reviewerId,
+					reviewedAt: new Date(),
+					reviewNote: note || null,
+					error: null,
+					updatedAt: new Date()
+				})
+				.where(eq(correctionRequests.id, request.id))
+				.returning();
+
+			return approved;
+		});
+	} catch (error) {
+		console.error(`[Corrections] Error applying correction ${request.id}:`, error);
+
+		await db
+			.update(correctionRequests)
+			.set({
+				status: "failed",
+				reviewedBy: reviewerId,
+				reviewedAt: new Date(),
+				reviewNote: note || null,
+				error: error instanceof Error ? error.message : "Unknown error",
+				updatedAt: new Date()
+			})
+			.where(eq(correctionRequests.id, request.id));
+
+		throw error;
+	}
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { splitIntoDaySegments } from "./day-segments";
+
+const TIMEZONE = "Europe/Helsinki";
+
+describe("splitIntoDaySegments", () => {
+	it("keeps an ongoing entry as a single open segment", () => {
+		const start = new Date("2024-01-15T07:00:00Z");
+
+		expect(splitIntoDaySegments(start, null, TIMEZONE)).toEqual([
+			{ startTime: start, endTime: null }
+		]);
+	});
+
+	it("keeps an entry within one day as a single segment", () => {
+		const start = new Date("2024-01-15T07:00:00Z");
+		const end = new Date("2024-01-15T15:00:00Z");
+
+		expect(splitIntoDaySegments(start, end, TIMEZONE)).toEqual([
+			{ startTime: start, endTime: end }
+		]);
+	});
+
+	it("splits an entry at local midnight", () => {
+		// 22:00 - 03:00 in Helsinki (UTC+2)
+		const segments = splitIntoDaySegments(
+			new Date("2024-01-15T20:00:00Z"),
+			new Date("2024-01-16T01:00:00Z"),
+			TIMEZONE
+		);
+
+		expect(segments).toEqual([
+			{
+				startTime: new Date("2024-01-15T20:00:00Z"),
+				endTime: new Date("2024-01-15T22:00:00Z")
+			},
+			{
+				startTime: new Date("2024-01-15T22:00:00Z"),
+				endTime: new Date("2024-01-16T01:00:00Z")
+			}
+		]);
+	});
+
+	it("does not add an empty segment for an entry ending exactly at midnight", () => {
+		const segments = splitIntoDaySegments(
+			new Date("2024-01-15T20:00:00Z"),
+			new Date("2024-01-15T22:00:00Z"),
+			TIMEZONE
+		);
+
+		expect(segments).toHaveLength(1);
+	});
+
+	it("gives the day clocks go forward 23 hours", () => {
+		// 23:00 on 30 March to 01:00 on 1 April, local time
+		const segments = splitIntoDaySegments(
+			new Date("2024-03-30T21:00:00Z"),
+			new Date("2024-03-31T22:00:00Z"),
+			TIMEZONE
+		);
+
+		expect(segments).toEqual([
+			{
+				startTime: new Date("2024-03-30T21:00:00Z"),
+				endTime: new Date("2024-03-30T22:00:00Z")
+			},
+			{
+				startTime: new Date("2024-03-30T22:00:00Z"),
+				endTime: new Date("2024-03-31T21:00:00Z")
+			},
+			{
+				startTime: new Date("2024-03-31T21:00:00Z"),
+				endTime: new Date("2024-03-31T22:00:00Z")
+			}
+		]);
+	});
+
+	it("gives the day clocks go back 25 hours", () => {
+		// 23:00 on 26 October to 01:00 on 28 October, local time
+		const segments = splitIntoDaySegments(
+			new Date("2024-10-26T20:00:00Z"),
+			new Date("2024-10-27T23:00:00Z"),
+			TIMEZONE
+		);
+
+		expect(segments).toEqual([
+			{
+				startTime: new Date("2024-10-26T20:00:00Z"),
+				endTime: new Date("2024-10-26T21:00:00Z")
+			},
+			{
+				startTime: new Date("2024-10-26T21:00:00Z"),
+				endTime: new Date("2024-10-27T22:00:00Z")
+			},
+			{
+				startTime: new Date("2024-10-27T22:00:00Z"),
+				endTime: new Date("2024-10-27T23:00:00Z")
+			}
+		]);
+	});
+});
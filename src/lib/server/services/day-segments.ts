@@ -0,0 +1,28 @@
+import { addDays, startOfDay } from "date-fns";
+import { toZonedTime, fromZonedTime } from "date-fns-tz";
+
+/**
+ * Split a time range into segments that each stay within one local day
+ */
+export function splitIntoDaySegments(
+	startTime: Date,
+	endTime: Date | null | undefined,
+	timeZone: string
+): { startTime: Date; endTime: Date | null }[] {
+	if (!endTime) return [{ startTime, endTime: null }];
+
+	const segments: { startTime: Date; endTime: Date | null }[] = [];
+	let segmentStart = startTime;
+
+	while (segmentStart < endTime) {
+		const nextMidnight = fromZonedTime(
+			startOfDay(addDays(toZonedTime(segmentStart, timeZone), 1)),
+			timeZone
+		);
+		const segmentEnd = endTime < nextMidnight ? endTime : nextMidnight;
+		segments.push({ startTime: segmentStart, endTime: segmentEnd });
+		segmentStart = segmentEnd;
+	}
+
+	return segments;
+}
@@ -0,0 +1,205 @@
+import { db } from "$lib/server/db";
+import {
+	hourEntryHistory,
+	users,
+	phases,
+	worktypes,
+	type HourEntry,
+	type HourEntryHistoryEvent
+} from "$lib/server/db/schema";
+import { eq, and, gte, lte, desc, inArray, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Rows returned by the history queries
+const HISTORY_LIMIT = 200;
+
+// Entry fields kept in the history
+export interface EntrySnapshot {
+	startTime: Date;
+	endTime: Date | null;
+	description: string | null;
+	issueCode: string | null;
+	phaseId: number | null;
+	worktypeId: number | null;
+	status: string;
+	vismaGuid: string | null;
+}
+
+export interface EntryChange {
+	event: HourEntryHistoryEvent;
+	before?: HourEntry | null;
+	after?: HourEntry | null;
+	reason?: string | null;
+}
+
+export interface EntryHistorySearch {
+	userId?: number;
+	actorId?: number;
+	hourEntryId?: number;
+	event?: HourEntryHistoryEvent;
+	from?: Date;
+	to?: Date;
+}
+
+function toSnapshot(entry: HourEntry | null | undefined): string | null {
+	if (!entry) return null;
+
+	const snapshot: EntrySnapshot = {
+		startTime: entry.startTime,
+		endTime: entry.endTime,
+		description: entry.description,
+		issueCode: entry.issueCode,
+		phaseId: entry.phaseId,
+		worktypeId: entry.worktypeId,
+		status: entry.status,
+		vismaGuid: entry.vismaGuid
+	};
+
+	return JSON.stringify(snapshot);
+}
+
+function parseSnapshot(value: string | null): EntrySnapshot | null {
+	if (!value) return null;
+
+	const snapshot = JSON.parse(value);
+	return {
+		...snapshot,
+		startTime: new Date(snapshot.startTime),
+		endTime: snapshot.endTime ? new Date(snapshot.endTime) : null
+	};
+}
+
+/**
+ * Get the names of the phases and work types referenced by snapshots
+ */
+async function getSnapshotNames(snapshots: (EntrySnapshot | null)[]) {
+	const phaseIds = new Set<number>();
+	const worktypeIds = new Set<number>();
+	for (const snapshot of snapshots) {
+		if (snapshot?.phaseId) phaseIds.add(snapshot.phaseId);
+		if (snapshot?.worktypeId) worktypeIds.add(snapshot.worktypeId);
+	}
+
+	const [phaseRows, worktypeRows] = await Promise.all([
+		phaseIds.size > 0
+			? db
+					.select({ id: phases.id, name: phases.name })
+					.from(phases)
+					.where(inArray(phases.id, Array.from(phaseIds)))
+			: [],
+		worktypeIds.size > 0
+			? db
+					.select({ id: worktypes.id, name: worktypes.name })
+					.from(worktypes)
+					.where(inArray(worktypes.id, Array.from(worktypeIds)))
+			: []
+	]);
+
+	return {
+		phases: new Map(phaseRows.map((row) => [row.id, row.name])),
+		worktypes: new Map(worktypeRows.map((row) => [row.id, row.name]))
+	};
+}
+
+/**
+ * Record changes to hour entries, inside the caller's transaction when one is given
+ * A null actor is the system, e.g. the scheduled export
+ */
+export async function recordEntryHistory(
+	actorId: number | null,
+	changes: EntryChange[],
+	executor: Transaction | typeof db = db
+): Promise<void> {
+	if (changes.length === 0) return;
+
+	await executor.insert(hourEntryHistory).values(
+		changes.map((change) => {
+			const entry = (change.after ?? change.before)!;
+
+			return {
+				hourEntryId: entry.id,
+				userId: entry.userId,
+				actorId,
+				event: change.event,
+				before: toSnapshot(change.before),
+				after: toSnapshot(change.after),
+				reason: change.reason || null
+			};
+		})
+	);
+}
+
+/**
+ * Get the history matching a search with the names of the owner and actor, newest first
+ */
+async function queryEntryHistory(conditions: SQL[]) {
+	const actors = alias(users, "history_actors");
+
+	const rows = await db
+		.select({
+			history: hourEntryHistory,
+			userFirstName: users.firstName,
+			userLastName: users.lastName,
+			actorFirstName: actors.firstName,
+			actorLastName: actors.lastName
+		})
+		.from(hourEntryHistory)
+		.innerJoin(users, eq(hourEntryHistory.userId, users.id))
+		.leftJoin(actors, eq(hourEntryHistory.actorId, actors.id))
+		.where(and(...conditions))
+		.orderBy(desc(hourEntryHistory.createdAt), desc(hourEntryHistory.id))
+		.limit(HISTORY_LIMIT);
+
+	const parsed = rows.map((row) => ({
+		row,
+		before: parseSnapshot(row.history.before),
+		after: parseSnapshot(row.history.after)
+	}));
+	const names = await getSnapshotNames(parsed.flatMap((p) => [p.before, p.after]));
+
+	const withNames = (snapshot: EntrySnapshot | null) =>
+		snapshot && {
+			...snapshot,
+			phaseName: snapshot.phaseId ? (names.phases.get(snapshot.phaseId) ?? null) : null,
+			worktypeName: snapshot.worktypeId
+				? (names.worktypes.get(snapshot.worktypeId) ?? null)
+				: null
+		};
+
+	return parsed.map(({ row, before, after }) => ({
+		...row.history,
+		event: row.history.event as HourEntryHistoryEvent,
+		before: withNames(before),
+		after: withNames(after),
+		userName: `${row.userFirstName} ${row.userLastName}`,
+		actorName: row.history.actorId ? `${row.actorFirstName} ${row.actorLastName}` : null
+	}));
+}
+
+/**
+ * Get the history of one of the user's entries
+ */
+export async function getEntryHistory(userId: number, hourEntryId: number) {
+	return queryEntryHistory([
+		eq(hourEntryHistory.userId, userId),
+		eq(hourEntryHistory.hourEntryId, hourEntryId)
+	]);
+}
+
+/**
+ * Search the history of all entries
+ */
+export async function searchEntryHistory(search: EntryHistorySearch) {
+	const conditions: SQL[] = [];
+
+	if (search.userId) conditions.push(eq(hourEntryHistory.userId, search.userId));
+	if (search.actorId) conditions.push(eq(hourEntryHistory.actorId, search.actorId));
+	if (search.hourEntryId) conditions.push(eq(hourEntryHistory.hourEntryId, search.hourEntryId));
+	if (search.event) conditions.push(eq(hourEntryHistory.event, search.event));
+	if (search.from) conditions.push(gte(hourEntryHistory.createdAt, search.from));
+	if (search.to) conditions.push(lte(hourEntryHistory.createdAt, search.to));
+
+	return queryEntryHistory(conditions);
+}
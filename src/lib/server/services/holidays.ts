@@ -0,0 +1,171 @@
+import { db } from "$lib/server/db";
+import { companyHolidays, users, type CompanyHoliday } from "$lib/server/db/schema";
+import {
+	getPublicHolidays,
+	getSupportedCountries,
+	DEFAULT_COUNTRY_CODE
+} from "$lib/server/holidays";
+import { eq, and, or, gte, lte, isNull, asc } from "drizzle-orm";
+import { eachYearOfInterval, isWeekend, parseISO } from "date-fns";
+
+export interface Holiday {
+	date: string; // yyyy-MM-dd
+	name: string;
+	source: "public" | "company";
+}
+
+export interface CompanyHolidayInput {
+	date: string; // yyyy-MM-dd
+	countryCode?: string | null;
+	name: string;
+	dayOff: boolean;
+}
+
+/**
+ * Get the holiday country of a user, falling back to the default country
+ */
+export async function getUserCountryCode(userId: number): Promise<string> {
+	const [user] = await db
+		.select({ countryCode: users.countryCode })
+		.from(users)
+		.where(eq(users.id, userId))
+		.limit(1);
+
+	return user?.countryCode || DEFAULT_COUNTRY_CODE;
+}
+
+/**
+ * Get the company overrides between two days (inclusive) that apply to a country
+ */
+async function getOverrides(countryCode: string, from: string, to: string) {
+	return db
+		.select()
+		.from(companyHolidays)
+		.where(
+			and(
+				gte(companyHolidays.date, from),
+				lte(companyHolidays.date, to),
+				or(
+					isNull(companyHolidays.countryCode),
+					eq(companyHolidays.countryCode, countryCode)
+				)
+			)
+		)
+		.orderBy(asc(companyHolidays.date));
+}
+
+/**
+ * Get the days off of a country between two "yyyy-MM-dd" days (inclusive)
+ * Company overrides add days off or turn public holidays into working days
+ */
+export async function getHolidays(
+	countryCode: string,
+	from: string,
+	to: string
+): Promise<Holiday[]> {
+	const byDate = new Map<string, Holiday>();
+
+	const years = eachYearOfInterval({ start: parseISO(from), end: parseISO(to) });
+	for (const year of years) {
+		for (const holiday of getPublicHolidays(countryCode, year.getFullYear())) {
+			if (holiday.date >= from && holiday.date <= to) {
+				byDate.set(holiday.date, { ...holiday, source: "public" });
+			}
+		}
+	}
+
+	// A country specific override wins over one for all countries
+	const overrides = await getOverrides(countryCode, from, to);
+	overrides.sort((a, b) => Number(a.countryCode !== null) - Number(b.countryCode !== null));
+	for (const override of overrides) {
+		if (override.dayOff) {
+			byDate.set(override.date, {
+				date: override.date,
+				name: override.name,
+				source: "company"
+			});
+		} else {
+			byDate.delete(override.date);
+		}
+	}
+
+	return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Check whether a "yyyy-MM-dd" day is a working day in a country
+ */
+export async function isWorkingDay(countryCode: string, day: string): Promise<boolean> {
+	if (isWeekend(parseISO(day))) return false;
+
+	const holidays = await getHolidays(countryCode, day, day);
+	return holidays.length === 0;
+}
+
+/**
+ * Get all company holiday overrides, optionally limited to one year
+ */
+export async function getCompanyHolidays(year?: number): Promise<CompanyHoliday[]> {
+	const query = db.select().from(companyHolidays);
+
+	if (year !== undefined) {
+		return query
+			.where(
+				and(
+					gte(companyHolidays.date, `${year}-01-01`),
+					lte(companyHolidays.date, `${year}-12-31`)
+				)
+			)
+			.orderBy(asc(companyHolidays.date));
+	}
+
+	return query.orderBy(asc(companyHolidays.date));
+}
+
+/**
+ * Create or update the company override of a day
+ * There is at most one override per day and country
+ */
+export async function saveCompanyHoliday(input: CompanyHolidayInput): Promise<CompanyHoliday> {
+	const countryCode = input.countryCode ? input.countryCode.toUpperCase() : null;
+	if (countryCode !== null && !getSupportedCountries().includes(countryCode)) {
+		throw new Error(`No holiday calendar for country: ${countryCode}`);
+	}
+
+	const [existing] = await db
+		.select()
+		.from(companyHolidays)
+		.where(
+			and(
+				eq(companyHolidays.date, input.date),
+				countryCode !== null
+					? eq(companyHolidays.countryCode, countryCode)
+					: isNull(companyHolidays.countryCode)
+			)
+		)
+		.limit(1);
+
+	if (existing) {
+		const [updated] = await db
+			.update(companyHolidays)
+			.set({ name: input.name, dayOff: input.dayOff, updatedAt: new Date() })
+			.where(eq(companyHolidays.id, existing.id))
+			.returning();
+
+		return updated;
+	}
+
+	const [created] = await db
+		.insert(companyHolidays)
+		.values({ date: input.date, countryCode, name: input.name, dayOff: input.dayOff })
+		.returning();
+
+	return created;
+}
+
+/**
+ * Delete a company holiday override
+ */
+export async function deleteCompanyHoliday(holidayId: number): Promise<void> {
+	await db.delete(companyHolidays).where(eq(companyHolidays.id, holidayId));
+}
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { HourEntry } from "$lib/server/db/schema";
+
+// In-memory stand-in for the hour entries and users tables, enough for the queries used here
+const fake = vi.hoisted(() => {
+	type Row = Record<string, unknown>;
+	type Column = { table: Record<string, unknown> };
+	type Predicate = (row: Row) => boolean;
+
+	const tables = new Map<object, Row[]>();
+	let nextId = 1000;
+
+	const rowsOf = (table: object) => {
+		if (!tables.has(table)) tables.set(table, []);
+		return tables.get(table)!;
+	};
+	const keyOf = (column: Column) =>
+		Object.entries(column.table).find(([, value]) => value === column)![0];
+	const valueOf = (value: unknown) => (value instanceof Date ? value.getTime() : value);
+	const compare = (column: Column, test: (a: unknown, b: unknown) => boolean) => {
+		return (value: unknown): Predicate =>
+			(row) =>
+				test(valueOf(row[keyOf(column)]), valueOf(value));
+	};
+
+	const operators = {
+		eq: (column: Column, value: unknown) => compare(column, (a, b) => a === b)(value),
+		ne: (column: Column, value: unknown) => compare(column, (a, b) => a !== b)(value),
+		gte: (column: Column, value: unknown) =>
+			compare(column, (a, b) => (a as number) >= (b as number))(value),
+		lte: (column: Column, value: unknown) =>
+			compare(column, (a, b) => (a as number) <= (b as number))(value),
+		isNull: (column: Column) => (row: Row) => row[keyOf(column)] == null,
+		inArray: (column: Column, values: unknown[]) => (row: Row) =>
+			values.map(valueOf).includes(valueOf(row[keyOf(column)])),
+		and:
+			(...predicates: (Predicate | undefined)[]) =>
+			(row: Row) =>
+				predicates.every((p) => !p || p(row)),
+		or:
+			(...predicates: (Predicate | undefined)[]) =>
+			(row: Row) =>
+				predicates.some((p) => p && p(row)),
+		asc: (column: Column) => ({ key: keyOf(column), direction: 1 }),
+		desc: (column: Column) => ({ key: keyOf(column), direction: -1 })
+	};
+
+	// A query that resolves when awaited, like Drizzle's builders
+	function query(run: () => Row[]) {
+		return {
+			then: (resolve: (rows: Row[]) => void, reject: (e: unknown) => void) => {
+				try {
+					resolve(run());
+				} catch (error) {
+					reject(error);
+				}
+			}
+		};
+	}
+
+	const db = {
+		select: (fields?: Record<string, Column>) => {
+			let table: object;
+			let predicate: Predicate = () => true;
+			let order: { key: string; direction: number }[] = [];
+			let limit = Infinity;
+
+			const run = () =>
+				rowsOf(table)
+					.filter(predicate)
+					.sort((a, b) => {
+						for (const { key, direction } of order) {
+							const diff = (valueOf(a[key]) as number) - (valueOf(b[key]) as number);
+							if (diff !== 0) return diff * direction;
+						}
+						return 0;
+					})
+					.slice(0, limit)
+					.map((row) =>
+						fields
+							? Object.fromEntries(
+									Object.entries(fields).map(([name, column]) => [
+										name,
+										row[keyOf(column)]
+									])
+								)
+							: { ...row }
+					);
+
+			const builder = {
+				from: (t: object) => ((table = t), builder),
+				where: (p: Predicate) => ((predicate = p), builder),
+				orderBy: (...o: typeof order) => ((order = o), builder),
+				limit: (n: number) => ((limit = n), builder),
+				...query(run)
+			};
+			return builder;
+		},
+		update: (table: object) => ({
+			set: (values: Row) => ({
+				where: (predicate: Predicate) => {
+					const run = () =>
+						rowsOf(table)
+							.filter(predicate)
+							.map((row) => Object.assign(row, values))
+							.map((row) => ({ ...row }));
+					return { returning: async () => run(), ...query(run) };
+				}
+			})
+		}),
+		insert: (table: object) => ({
+			values: (values: Row | Row[]) => {
+				const run = () => {
+					const created = [values].flat().map((value) => ({
+						id: ++nextId,
+						segmentOfHourEntryId: null,
+						deletedAt: null,
+						...value
+					}));
+					rowsOf(table).push(...created);
+					return created.map((row) => ({ ...row }));
+				};
+				return { returning: async () => run(), ...query(run) };
+			}
+		}),
+		transaction: async <T>(fn: (tx: object) => Promise<T>): Promise<T> => fn(db)
+	};
+
+	return { db, operators, tables, rowsOf };
+});
+
+vi.mock("$lib/server/db", () => ({ db: fake.db }));
+vi.mock("drizzle-orm", async (importOriginal) => ({
+	...(await importOriginal<typeof import("drizzle-orm")>()),
+	...fake.operators
+}));
+vi.mock("./period-locks", () => ({ isPeriodLocked: async () => false }));
+vi.mock("./entry-history", () => ({ recordEntryHistory: vi.fn() }));
+
+const { hourEntries, users } = await import("$lib/server/db/schema");
+const { confirmDay, updateHourEntry, deleteHourEntry, HourEntryError } =
+	await import("./hour-entries");
+
+const USER_ID = 1;
+
+function entry(id: number, start: string, end: string, segmentOfHourEntryId: number | null = null) {
+	return {
+		id,
+		userId: USER_ID,
+		phaseId: 1,
+		worktypeId: 1,
+		description: "Release night",
+		issueCode: null,
+		startTime: new Date(start),
+		endTime: new Date(end),
+		source: "inside",
+		status: "draft",
+		vismaGuid: null,
+		originalHourEntryId: null,
+		segmentOfHourEntryId,
+		deletedAt: null
+	};
+}
+
+function stored(id: number): HourEntry {
+	return fake.rowsOf(hourEntries).find((row) => row.id === id) as unknown as HourEntry;
+}
+
+describe("confirmDay", () => {
+	beforeEach(() => {
+		fake.tables.clear();
+		fake.rowsOf(users).push({ id: USER_ID, timezone: "Europe/Helsinki" });
+		// 22:00 - 02:00 in Helsinki, stored as one segment per day
+		fake.rowsOf(hourEntries).push(
+			entry(1, "2024-01-15T20:00:00Z", "2024-01-15T22:00:00Z"),
+			entry(2, "2024-01-15T22:00:00Z", "2024-01-16T00:00:00Z", 1)
+		);
+	});
+
+	it("confirms only the first half of an overnight entry", async () => {
+		await confirmDay(USER_ID, new Date("2024-01-15T10:00:00Z"));
+
+		expect(stored(1).status).toBe("confirmed");
+		expect(stored(2).status).toBe("draft");
+	});
+
+	it("leaves the next-day half editable and deletable on its own", async () => {
+		await confirmDay(USER_ID, new Date("2024-01-15T10:00:00Z"));
+
+		expect(stored(2).segmentOfHourEntryId).toBeNull();
+
+		await updateHourEntry(USER_ID, 2, { description: "Release night, rollback" });
+		expect(stored(2).description).toBe("Release night, rollback");
+		expect(stored(1).description).toBe("Release night");
+
+		await deleteHourEntry(USER_ID, 2);
+		expect(stored(2).deletedAt).not.toBeNull();
+		expect(stored(1).deletedAt).toBeNull();
+	});
+
+	it("keeps the confirmed half locked", async () => {
+		await confirmDay(USER_ID, new Date("2024-01-15T10:00:00Z"));
+
+		await expect(updateHourEntry(USER_ID, 1, { description: "Changed" })).rejects.toThrow(
+			HourEntryError
+		);
+	});
+});
@@ -1,14 +1,17 @@
 import { db } from "$lib/server/db";
 import {
 	hourEntries,
+	users,
 	phases,
 	cases,
 	customers,
 	worktypes,
 	type HourEntry,
+	type HourEntrySource,
 	type NewHourEntry
 } from "$lib/server/db/schema";
-import { eq, and, gte, lte, isNull, desc, asc } from "drizzle-orm";
+import { DEFAULT_TIMEZONE } from "$lib/constants";
+import { eq, ne, and, or, gte, lte, isNull, inArray, desc, asc } from "drizzle-orm";
 import {
 	startOfDay,
 	endOfDay,
@@ -16,11 +19,19 @@ import {
 	endOfMonth,
 	parseISO,
 	format,
-	differenceInMinutes
+	differenceInMinutes,
+	startOfMinute,
+	addMinutes,
+	addHours,
+	min,
+	max
 } from "date-fns";
 import { toZonedTime, fromZonedTime } from "date-fns-tz";
+import { isPeriodLocked } from "./period-locks";
+import { recordEntryHistory } from "./entry-history";
+import { splitIntoDaySegments } from "./day-segments";
 
-const TIMEZONE = "Europe/Helsinki";
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 // Custom error codes
 export const ErrorCodes = {
@@ -31,14 +42,20 @@ export const ErrorCodes = {
 	ALREADY_DELETED: 1005,
 	MISSING_REQUIRED_FIELD: 1006,
 	NO_ENTRIES_FOR_DAY: 1007,
-	UNSUPPORTED_TIME: 1010,
 	TOO_MANY_HOURS: 1011,
 	MISSING_END_TIME: 1012,
 	DAY_LOCKED: 1013,
 	INVALID_TIME_RANGE: 1014,
 	INVALID_PHASE: 1015,
 	INVALID_WORKTYPE: 1016,
-	DATE_OUT_OF_RANGE: 1017
+	DATE_OUT_OF_RANGE: 1017,
+	NO_RUNNING_TIMER: 1018,
+	READ_ONLY_ENTRY: 1019,
+	NOT_SYNCED: 1020,
+	CORRECTION_PENDING: 1021,
+	ALREADY_SYNCED: 1022,
+	PERIOD_LOCKED: 1023,
+	READ_ONLY_SESSION: 1024
 } as const;
 
 export class HourEntryError extends Error {
@@ -65,6 +82,8 @@ export interface HourEntryInput {
 }
 
 export interface HourEntryWithRelations extends HourEntry {
+	// End of the whole entry when it continues past midnight into later segments
+	logicalEndTime?: Date | null;
 	phase?: {
 		id: number;
 		name: string;
@@ -83,28 +102,42 @@ export interface HourEntryWithRelations extends HourEntry {
 	} | null;
 }
 
+// Longest supported entry, also when it crosses midnight
+const MAX_ENTRY_HOURS = 24;
+
+// Sources of the hours a user logged: their own entries and read-only hours entered in Visma
+export const LOGGED_HOUR_SOURCES: HourEntrySource[] = ["inside", "visma"];
+
 /**
- * Validate that a time is not in the unsupported 23:55-00:00 range
+ * Get the timezone a user's days are calculated in
  */
-function validateTimeRange(time: Date): void {
-	const localTime = toZonedTime(time, TIMEZONE);
-	const hours = localTime.getHours();
-	const minutes = localTime.getMinutes();
+export async function getUserTimezone(userId: number): Promise<string> {
+	const [user] = await db
+		.select({ timezone: users.timezone })
+		.from(users)
+		.where(eq(users.id, userId))
+		.limit(1);
 
-	if (hours === 23 && minutes >= 55) {
-		throw new HourEntryError(
-			"Times between 23:55 and 00:00 are not supported",
-			ErrorCodes.UNSUPPORTED_TIME
-		);
-	}
+	return user?.timezone ?? DEFAULT_TIMEZONE;
+}
+
+/**
+ * Get the UTC bounds of the local day containing the given time
+ */
+function getDayBounds(date: Date, timeZone: string): { dayStart: Date; dayEnd: Date } {
+	const localDate = toZonedTime(date, timeZone);
+	return {
+		dayStart: fromZonedTime(startOfDay(localDate), timeZone),
+		dayEnd: fromZonedTime(endOfDay(localDate), timeZone)
+	};
 }
 
 /**
  * Validate that the date is not in the future
  */
-function validateNotFutureDate(date: Date): void {
-	const localDate = toZonedTime(date, TIMEZONE);
-	const today = toZonedTime(new Date(), TIMEZONE);
+function validateNotFutureDate(date: Date, timeZone: string): void {
+	const localDate = toZonedTime(date, timeZone);
+	const today = toZonedTime(new Date(), timeZone);
 
 	// Compare only dates (not time)
 	const dateStr = format(localDate, "yyyy-MM-dd");
@@ -119,9 +152,9 @@ function validateNotFutureDate(date: Date): void {
 }
 
 /**
- * Validate that end time is after start time
+ * Validate that end time is after start time and the entry is not too long
  */
-function validateStartEnd(startTime: Date, endTime: Date | null | undefined): void {
+export function validateStartEnd(startTime: Date, endTime: Date | null | undefined): void {
 	if (!endTime) return;
 
 	if (endTime <= startTime) {
@@ -131,22 +164,72 @@ function validateStartEnd(startTime: Date, endTime: Date | null | undefined): vo
 		);
 	}
 
-	// Check they're on the same day in local time
-	const localStart = toZonedTime(startTime, TIMEZONE);
-	const localEnd = toZonedTime(endTime, TIMEZONE);
-
-	if (format(localStart, "yyyy-MM-dd") !== format(localEnd, "yyyy-MM-dd")) {
+	if (endTime > addHours(startTime, MAX_ENTRY_HOURS)) {
 		throw new HourEntryError(
-			"Start and end must be on the same day",
-			ErrorCodes.INVALID_TIME_RANGE
+			`Entries cannot be longer than ${MAX_ENTRY_HOURS} hours`,
+			ErrorCodes.TOO_MANY_HOURS
 		);
 	}
 }
 
+/**
+ * Get all segments of a logical entry, starting from its first segment
+ */
+async function getEntrySegments(
+	firstSegmentId: number,
+	executor: Transaction | typeof db = db
+): Promise<HourEntry[]> {
+	return executor
+		.select()
+		.from(hourEntries)
+		.where(
+			and(
+				or(
+					eq(hourEntries.id, firstSegmentId),
+					eq(hourEntries.segmentOfHourEntryId, firstSegmentId)
+				),
+				isNull(hourEntries.deletedAt)
+			)
+		)
+		.orderBy(asc(hourEntries.startTime));
+}
+
+/**
+ * Check that none of the segments falls on a confirmed day
+ */
+async function validateSegmentDaysUnlocked(
+	userId: number,
+	segments: { startTime: Date }[],
+	message: string,
+	timeZone: string
+): Promise<void> {
+	for (const segment of segments) {
+		if (await isDayLocked(userId, segment.startTime, timeZone)) {
+			throw new HourEntryError(message, ErrorCodes.DAY_LOCKED);
+		}
+	}
+}
+
+/**
+ * Check that none of the moments falls in a month an admin has locked
+ */
+async function validatePeriodsUnlocked(
+	userId: number,
+	dates: Date[],
+	message: string,
+	timeZone: string
+): Promise<void> {
+	for (const date of dates) {
+		if (await isPeriodLocked(userId, date, timeZone)) {
+			throw new HourEntryError(message, ErrorCodes.PERIOD_LOCKED);
+		}
+	}
+}
+
 /**
  * Validate phase is active and usable
  */
-async function validatePhase(phaseId: number): Promise<void> {
+export async function validatePhase(phaseId: number): Promise<void> {
 	const result = await db
 		.select({
 			phase: phases,
@@ -181,7 +264,7 @@ async function validatePhase(phaseId: number): Promise<void> {
 /**
  * Validate worktype is active
  */
-async function validateWorktype(worktypeId: number): Promise<void> {
+export async function validateWorktype(worktypeId: number): Promise<void> {
 	const result = await db.select().from(worktypes).where(eq(worktypes.id, worktypeId)).limit(1);
 
 	if (result.length === 0) {
@@ -194,12 +277,11 @@ async function validateWorktype(worktypeId: number): Promise<void> {
 }
 
 /**
- * Check if a day has any confirmed entries (day is locked)
+ * Check if a day has any confirmed, approved or exported entries (day is locked)
+ * Hours imported from Visma are synced too but don't lock the day
  */
-async function isDayLocked(userId: number, date: Date): Promise<boolean> {
-	const localDate = toZonedTime(date, TIMEZONE);
-	const dayStart = fromZonedTime(startOfDay(localDate), TIMEZONE);
-	const dayEnd = fromZonedTime(endOfDay(localDate), TIMEZONE);
+async function isDayLocked(userId: number, date: Date, timeZone: string): Promise<boolean> {
+	const { dayStart, dayEnd } = getDayBounds(date, timeZone);
 
 	const result = await db
 		.select()
@@ -209,7 +291,8 @@ async function isDayLocked(userId: number, date: Date): Promise<boolean> {
 				eq(hourEntries.userId, userId),
 				gte(hourEntries.startTime, dayStart),
 				lte(hourEntries.startTime, dayEnd),
-				eq(hourEntries.status, "confirmed"),
+				eq(hourEntries.source, "inside"),
+				inArray(hourEntries.status, ["confirmed", "approved", "synced"]),
 				isNull(hourEntries.deletedAt)
 			)
 		)
@@ -221,18 +304,32 @@ async function isDayLocked(userId: number, date: Date): Promise<boolean> {
 /**
  * Create a new hour entry
  */
-export async function createHourEntry(userId: number, input: HourEntryInput): Promise<HourEntry> {
-	validateNotFutureDate(input.startTime);
-	validateTimeRange(input.startTime);
-	if (input.endTime) {
-		validateTimeRange(input.endTime);
-	}
+export async function createHourEntry(
+	userId: number,
+	input: HourEntryInput,
+	actorId: number = userId
+): Promise<HourEntry> {
+	const timeZone = await getUserTimezone(userId);
+
+	validateNotFutureDate(input.startTime, timeZone);
 	validateStartEnd(input.startTime, input.endTime);
 
-	// Check if day is locked
-	if (await isDayLocked(userId, input.startTime)) {
-		throw new HourEntryError("Cannot add entries to a confirmed day", ErrorCodes.DAY_LOCKED);
-	}
+	// Entries crossing midnight are stored as one segment per day
+	const segments = splitIntoDaySegments(input.startTime, input.endTime, timeZone);
+
+	// Check if any of the days is locked
+	await validatePeriodsUnlocked(
+		userId,
+		segments.map((segment) => segment.startTime),
+		"Cannot add entries to a locked month",
+		timeZone
+	);
+	await validateSegmentDaysUnlocked(
+		userId,
+		segments,
+		"Cannot add entries to a confirmed day",
+		timeZone
+	);
 
 	// Validate phase and worktype if provided
 	if (input.phaseId) {
@@ -242,22 +339,46 @@ export async function createHourEntry(userId: number, input: HourEntryInput): Pr
 		await validateWorktype(input.worktypeId);
 	}
 
-	const [entry] = await db
-		.insert(hourEntries)
-		.values({
+	return db.transaction(async (tx) => {
+		const fields = {
 			userId,
-			startTime: input.startTime,
-			endTime: input.endTime,
 			description: input.description,
 			issueCode: input.issueCode,
 			phaseId: input.phaseId,
 			worktypeId: input.worktypeId,
 			source: "inside",
 			status: "draft"
-		})
-		.returning();
+		};
 
-	return entry;
+		const [entry] = await tx
+			.insert(hourEntries)
+			.values({ ...fields, ...segments[0] })
+			.returning();
+		const created = [entry];
+
+		if (segments.length > 1) {
+			created.push(
+				...(await tx
+					.insert(hourEntries)
+					.values(
+						segments.slice(1).map((segment) => ({
+							...fields,
+							...segment,
+							segmentOfHourEntryId: entry.id
+						}))
+					)
+					.returning())
+			);
+		}
+
+		await recordEntryHistory(
+			actorId,
+			created.map((after) => ({ event: "create", after })),
+			tx
+		);
+
+		return entry;
+	});
 }
 
 /**
@@ -266,7 +387,8 @@ export async function createHourEntry(userId: number, input: HourEntryInput): Pr
 export async function updateHourEntry(
 	userId: number,
 	entryId: number,
-	input: Partial<HourEntryInput>
+	input: Partial<HourEntryInput>,
+	actorId: number = userId
 ): Promise<HourEntry> {
 	// Get existing entry
 	const [existing] = await db
@@ -283,21 +405,45 @@ export async function updateHourEntry(
 		throw new HourEntryError("Not authorized to edit this entry", ErrorCodes.NOT_OWNER);
 	}
 
-	if (existing.status !== "draft") {
+	if (existing.source === "visma") {
+		throw new HourEntryError(
+			"Hours entered in Visma can only be edited in Visma",
+			ErrorCodes.READ_ONLY_ENTRY
+		);
+	}
+
+	// Later segments of an overnight entry are edited through the whole entry
+	const currentSegments = await getEntrySegments(existing.segmentOfHourEntryId ?? existing.id);
+	const first = currentSegments[0];
+	const last = currentSegments[currentSegments.length - 1];
+
+	if (currentSegments.some((segment) => segment.status !== "draft")) {
 		throw new HourEntryError("Cannot edit confirmed entries", ErrorCodes.NOT_DRAFT);
 	}
 
 	// Validate times if provided
-	const newStartTime = input.startTime ?? existing.startTime;
-	const newEndTime = input.endTime !== undefined ? input.endTime : existing.endTime;
+	const newStartTime = input.startTime ?? first.startTime;
+	const newEndTime = input.endTime !== undefined ? input.endTime : last.endTime;
 
-	validateNotFutureDate(newStartTime);
-	validateTimeRange(newStartTime);
-	if (newEndTime) {
-		validateTimeRange(newEndTime);
-	}
+	const timeZone = await getUserTimezone(userId);
+
+	validateNotFutureDate(newStartTime, timeZone);
 	validateStartEnd(newStartTime, newEndTime);
 
+	const segments = splitIntoDaySegments(newStartTime, newEndTime, timeZone);
+	await validatePeriodsUnlocked(
+		userId,
+		[...currentSegments, ...segments].map((segment) => segment.startTime),
+		"Cannot edit entries in a locked month",
+		timeZone
+	);
+	await validateSegmentDaysUnlocked(
+		userId,
+		segments,
+		"Cannot move entries to a confirmed day",
+		timeZone
+	);
+
 	// Validate phase and worktype if changed
 	if (input.phaseId !== undefined && input.phaseId !== null) {
 		await validatePhase(input.phaseId);
@@ -306,27 +452,72 @@ export async function updateHourEntry(
 		await validateWorktype(input.worktypeId);
 	}
 
-	const [updated] = await db
-		.update(hourEntries)
-		.set({
-			startTime: input.startTime ?? existing.startTime,
-			endTime: input.endTime !== undefined ? input.endTime : existing.endTime,
-			description: input.description !== undefined ? input.description : existing.description,
-			issueCode: input.issueCode !== undefined ? input.issueCode : existing.issueCode,
-			phaseId: input.phaseId !== undefined ? input.phaseId : existing.phaseId,
-			worktypeId: input.worktypeId !== undefined ? input.worktypeId : existing.worktypeId,
-			updatedAt: new Date()
-		})
-		.where(eq(hourEntries.id, entryId))
-		.returning();
+	return db.transaction(async (tx) => {
+		const fields = {
+			description: input.description !== undefined ? input.description : first.description,
+			issueCode: input.issueCode !== undefined ? input.issueCode : first.issueCode,
+			phaseId: input.phaseId !== undefined ? input.phaseId : first.phaseId,
+			worktypeId: input.worktypeId !== undefined ? input.worktypeId : first.worktypeId
+		};
+
+		const [updated] = await tx
+			.update(hourEntries)
+			.set({ ...fields, ...segments[0], updatedAt: new Date() })
+			.where(eq(hourEntries.id, first.id))
+			.returning();
+
+		// Replace the later segments with the new split
+		if (currentSegments.length > 1) {
+			await tx
+				.update(hourEntries)
+				.set({ deletedAt: new Date(), updatedAt: new Date() })
+				.where(
+					inArray(
+						hourEntries.id,
+						currentSegments.slice(1).map((segment) => segment.id)
+					)
+				);
+		}
 
-	return updated;
+		const created =
+			segments.length > 1
+				? await tx
+						.insert(hourEntries)
+						.values(
+							segments.slice(1).map((segment) => ({
+								...fields,
+								...segment,
+								userId,
+								source: "inside",
+								status: "draft",
+								segmentOfHourEntryId: first.id
+							}))
+						)
+						.returning()
+				: [];
+
+		await recordEntryHistory(
+			actorId,
+			[
+				{ event: "update", before: first, after: updated },
+				...currentSegments.slice(1).map((before) => ({ event: "delete" as const, before })),
+				...created.map((after) => ({ event: "create" as const, after }))
+			],
+			tx
+		);
+
+		return updated;
+	});
 }
 
 /**
  * Delete an hour entry (soft delete)
  */
-export async function deleteHourEntry(userId: number, entryId: number): Promise<void> {
+export async function deleteHourEntry(
+	userId: number,
+	entryId: number,
+	actorId: number = userId
+): Promise<void> {
 	const [existing] = await db
 		.select()
 		.from(hourEntries)
@@ -341,30 +532,62 @@ export async function deleteHourEntry(userId: number, entryId: number): Promise<
 		throw new HourEntryError("Not authorized to delete this entry", ErrorCodes.NOT_OWNER);
 	}
 
-	if (existing.status !== "draft") {
+	if (existing.source === "visma") {
+		throw new HourEntryError(
+			"Hours entered in Visma can only be deleted in Visma",
+			ErrorCodes.READ_ONLY_ENTRY
+		);
+	}
+
+	// Deleting any segment of an overnight entry deletes the whole entry
+	const segments = await getEntrySegments(existing.segmentOfHourEntryId ?? existing.id);
+
+	if (segments.some((segment) => segment.status !== "draft")) {
 		throw new HourEntryError("Cannot delete confirmed entries", ErrorCodes.NOT_DRAFT);
 	}
 
-	await db
-		.update(hourEntries)
-		.set({
-			deletedAt: new Date(),
-			updatedAt: new Date()
-		})
-		.where(eq(hourEntries.id, entryId));
+	await validatePeriodsUnlocked(
+		userId,
+		segments.map((segment) => segment.startTime),
+		"Cannot delete entries in a locked month",
+		await getUserTimezone(userId)
+	);
+
+	await db.transaction(async (tx) => {
+		await tx
+			.update(hourEntries)
+			.set({
+				deletedAt: new Date(),
+				updatedAt: new Date()
+			})
+			.where(
+				inArray(
+					hourEntries.id,
+					segments.map((segment) => segment.id)
+				)
+			);
+
+		await recordEntryHistory(
+			actorId,
+			segments.map((before) => ({ event: "delete", before })),
+			tx
+		);
+	});
 }
 
 /**
- * Get hour entries for a user in a given month
+ * Get hour entries for a user in a given month, including read-only hours from Visma
  */
 export async function getHourEntriesForMonth(
 	userId: number,
 	year: number,
 	month: number,
-	order: "asc" | "desc" = "asc"
+	order: "asc" | "desc" = "asc",
+	timeZone?: string
 ): Promise<HourEntryWithRelations[]> {
-	const monthStart = fromZonedTime(new Date(year, month - 1, 1), TIMEZONE);
-	const monthEnd = fromZonedTime(endOfMonth(new Date(year, month - 1, 1)), TIMEZONE);
+	const tz = timeZone ?? (await getUserTimezone(userId));
+	const monthStart = fromZonedTime(new Date(year, month - 1, 1), tz);
+	const monthEnd = fromZonedTime(endOfMonth(new Date(year, month - 1, 1)), tz);
 
 	const entries = await db
 		.select({
@@ -384,6 +607,7 @@ export async function getHourEntriesForMonth(
 				eq(hourEntries.userId, userId),
 				gte(hourEntries.startTime, monthStart),
 				lte(hourEntries.startTime, monthEnd),
+				inArray(hourEntries.source, LOGGED_HOUR_SOURCES),
 				isNull(hourEntries.deletedAt)
 			)
 		)
@@ -419,15 +643,50 @@ export async function getHourEntriesForMonth(
 }
 
 /**
- * Get hour entries for a specific day
+ * Add the end time of the whole entry to first segments of entries crossing midnight
+ */
+async function attachLogicalEndTimes(
+	entries: HourEntryWithRelations[]
+): Promise<HourEntryWithRelations[]> {
+	const firstSegmentIds = entries.filter((e) => !e.segmentOfHourEntryId).map((e) => e.id);
+	if (firstSegmentIds.length === 0) return entries;
+
+	const laterSegments = await db
+		.select({
+			segmentOfHourEntryId: hourEntries.segmentOfHourEntryId,
+			endTime: hourEntries.endTime
+		})
+		.from(hourEntries)
+		.where(
+			and(
+				inArray(hourEntries.segmentOfHourEntryId, firstSegmentIds),
+				isNull(hourEntries.deletedAt)
+			)
+		);
+
+	const logicalEnds = new Map<number, Date | null>();
+	for (const segment of laterSegments) {
+		const current = logicalEnds.get(segment.segmentOfHourEntryId!);
+		if (!current || (segment.endTime && segment.endTime > current)) {
+			logicalEnds.set(segment.segmentOfHourEntryId!, segment.endTime);
+		}
+	}
+
+	return entries.map((entry) => ({
+		...entry,
+		logicalEndTime: logicalEnds.get(entry.id) ?? entry.endTime
+	}));
+}
+
+/**
+ * Get hour entries for a specific day, including read-only hours from Visma
  */
 export async function getHourEntriesForDay(
 	userId: number,
-	date: Date
+	date: Date,
+	timeZone?: string
 ): Promise<HourEntryWithRelations[]> {
-	const localDate = toZonedTime(date, TIMEZONE);
-	const dayStart = fromZonedTime(startOfDay(localDate), TIMEZONE);
-	const dayEnd = fromZonedTime(endOfDay(localDate), TIMEZONE);
+	const { dayStart, dayEnd } = getDayBounds(date, timeZone ?? (await getUserTimezone(userId)));
 
 	const entries = await db
 		.select({
@@ -447,12 +706,13 @@ export async function getHourEntriesForDay(
 				eq(hourEntries.userId, userId),
 				gte(hourEntries.startTime, dayStart),
 				lte(hourEntries.startTime, dayEnd),
+				inArray(hourEntries.source, LOGGED_HOUR_SOURCES),
 				isNull(hourEntries.deletedAt)
 			)
 		)
 		.orderBy(asc(hourEntries.startTime));
 
-	return entries.map((row) => ({
+	const result = entries.map((row) => ({
 		...row.entry,
 		phase: row.phase
 			? {
@@ -479,15 +739,27 @@ export async function getHourEntriesForDay(
 				}
 			: null
 	}));
+
+	return attachLogicalEndTimes(result);
 }
 
 /**
  * Confirm all draft entries for a specific day
  */
-export async function confirmDay(userId: number, date: Date): Promise<HourEntry[]> {
-	const localDate = toZonedTime(date, TIMEZONE);
-	const dayStart = fromZonedTime(startOfDay(localDate), TIMEZONE);
-	const dayEnd = fromZonedTime(endOfDay(localDate), TIMEZONE);
+export async function confirmDay(
+	userId: number,
+	date: Date,
+	actorId: number = userId
+): Promise<HourEntry[]> {
+	const timeZone = await getUserTimezone(userId);
+	const { dayStart, dayEnd } = getDayBounds(date, timeZone);
+
+	await validatePeriodsUnlocked(
+		userId,
+		[dayStart],
+		"Cannot confirm days in a locked month",
+		timeZone
+	);
 
 	// Get all draft entries for the day
 	const draftEntries = await db
@@ -547,22 +819,173 @@ export async function confirmDay(userId: number, date: Date): Promise<HourEntry[
 		}
 	}
 
-	// Confirm all entries
-	const confirmedEntries: HourEntry[] = [];
-	for (const entry of draftEntries) {
-		const [confirmed] = await db
+	// Confirm all entries, the day is confirmed as a whole or not at all
+	return db.transaction(async (tx) => {
+		const confirmedEntries: HourEntry[] = [];
+		for (const entry of draftEntries) {
+			const [confirmed] = await tx
+				.update(hourEntries)
+				.set({
+					status: "confirmed",
+					updatedAt: new Date()
+				})
+				.where(eq(hourEntries.id, entry.id))
+				.returning();
+
+			confirmedEntries.push(confirmed);
+		}
+
+		await recordEntryHistory(
+			actorId,
+			draftEntries.map((before, i) => ({
+				event: "confirm",
+				before,
+				after: confirmedEntries[i]
+			})),
+			tx
+		);
+
+		await detachConfirmedSegments(confirmedEntries, tx);
+
+		return confirmedEntries;
+	});
+}
+
+/**
+ * Split overnight entries whose segments were confirmed on different days into separate entries
+ * Otherwise the draft part on the other day could not be edited or deleted until that day is
+ * confirmed too. Consecutive segments that are all draft, or all confirmed, stay one entry
+ */
+async function detachConfirmedSegments(confirmed: HourEntry[], tx: Transaction): Promise<void> {
+	const firstSegmentIds = new Set(confirmed.map((e) => e.segmentOfHourEntryId ?? e.id));
+
+	for (const firstSegmentId of firstSegmentIds) {
+		const segments = await getEntrySegments(firstSegmentId, tx);
+
+		let groupFirst = segments[0];
+		for (const [i, segment] of segments.entries()) {
+			const startsGroup =
+				i > 0 && (segments[i - 1].status === "draft") !== (segment.status === "draft");
+			if (startsGroup) groupFirst = segment;
+
+			const segmentOfHourEntryId = groupFirst === segment ? null : groupFirst.id;
+			if (segment.segmentOfHourEntryId !== segmentOfHourEntryId) {
+				await tx
+					.update(hourEntries)
+					.set({ segmentOfHourEntryId, updatedAt: new Date() })
+					.where(eq(hourEntries.id, segment.id));
+			}
+		}
+	}
+}
+
+/**
+ * Revert a confirmed day back to draft, as long as nothing from it has reached Visma yet
+ * Rounded and padding rows derived for the export are removed; they are derived again when
+ * the day is confirmed and exported the next time
+ */
+export async function unconfirmDay(
+	userId: number,
+	date: Date,
+	actorId: number = userId
+): Promise<HourEntry[]> {
+	const timeZone = await getUserTimezone(userId);
+	const { dayStart, dayEnd } = getDayBounds(date, timeZone);
+
+	await validatePeriodsUnlocked(
+		userId,
+		[dayStart],
+		"Cannot unconfirm days in a locked month",
+		timeZone
+	);
+
+	const dayEntries = await db
+		.select()
+		.from(hourEntries)
+		.where(
+			and(
+				eq(hourEntries.userId, userId),
+				gte(hourEntries.startTime, dayStart),
+				lte(hourEntries.startTime, dayEnd),
+				eq(hourEntries.source, "inside"),
+				isNull(hourEntries.deletedAt)
+			)
+		);
+
+	// Approved days can be reverted too; they need a new approval once confirmed again
+	const confirmedEntries = dayEntries.filter(
+		(e) => e.status === "confirmed" || e.status === "approved"
+	);
+	if (confirmedEntries.length === 0) {
+		throw new HourEntryError(
+			"No confirmed entries found for this day",
+			ErrorCodes.NO_ENTRIES_FOR_DAY
+		);
+	}
+
+	const rawIds = dayEntries.map((e) => e.id);
+	const derivedEntries = await db
+		.select()
+		.from(hourEntries)
+		.where(
+			and(
+				inArray(hourEntries.originalHourEntryId, rawIds),
+				ne(hourEntries.source, "inside"),
+				isNull(hourEntries.deletedAt)
+			)
+		);
+
+	if ([...dayEntries, ...derivedEntries].some((e) => e.status === "synced")) {
+		throw new HourEntryError(
+			"Day has already been exported to Visma, request a correction instead",
+			ErrorCodes.ALREADY_SYNCED
+		);
+	}
+
+	const now = new Date();
+
+	return db.transaction(async (tx) => {
+		if (derivedEntries.length > 0) {
+			await tx
+				.update(hourEntries)
+				.set({ deletedAt: now, updatedAt: now })
+				.where(
+					inArray(
+						hourEntries.id,
+						derivedEntries.map((e) => e.id)
+					)
+				);
+		}
+
+		const reverted = await tx
 			.update(hourEntries)
 			.set({
-				status: "confirmed",
-				updatedAt: new Date()
+				status: "draft",
+				unconfirmedBy: actorId,
+				unconfirmedAt: now,
+				updatedAt: now
 			})
-			.where(eq(hourEntries.id, entry.id))
+			.where(
+				inArray(
+					hourEntries.id,
+					confirmedEntries.map((e) => e.id)
+				)
+			)
 			.returning();
 
-		confirmedEntries.push(confirmed);
-	}
+		const beforeById = new Map(confirmedEntries.map((e) => [e.id, e]));
+		await recordEntryHistory(
+			actorId,
+			reverted.map((after) => ({
+				event: "unconfirm",
+				before: beforeById.get(after.id),
+				after
+			})),
+			tx
+		);
 
-	return confirmedEntries;
+		return reverted;
+	});
 }
 
 /**
@@ -592,19 +1015,28 @@ export function formatDuration(minutes: number): string {
  */
 export async function copyPreviousConfirmedDay(
 	userId: number,
-	targetDate: Date
+	targetDate: Date,
+	actorId: number = userId
 ): Promise<HourEntry[]> {
-	// Validate target date
-	validateNotFutureDate(targetDate);
+	const timeZone = await getUserTimezone(userId);
 
-	// Check if target day already has entries
-	const existingEntries = await getHourEntriesForDay(userId, targetDate);
-	if (existingEntries.length > 0) {
+	// Validate target date
+	validateNotFutureDate(targetDate, timeZone);
+	await validatePeriodsUnlocked(
+		userId,
+		[targetDate],
+		"Cannot copy entries into a locked month",
+		timeZone
+	);
+
+	// Check if target day already has entries, hours imported from Visma don't count
+	const existingEntries = await getHourEntriesForDay(userId, targetDate, timeZone);
+	if (existingEntries.some((e) => e.source === "inside")) {
 		throw new HourEntryError("Target day already has entries", ErrorCodes.DAY_LOCKED);
 	}
 
 	// Search backwards for the most recent confirmed day (up to 90 days)
-	const targetStart = startOfDay(toZonedTime(targetDate, TIMEZONE));
+	const targetStart = startOfDay(toZonedTime(targetDate, timeZone));
 	let searchDate = new Date(targetStart);
 	searchDate.setDate(searchDate.getDate() - 1);
 
@@ -612,11 +1044,16 @@ export async function copyPreviousConfirmedDay(
 	const maxDaysBack = 90;
 
 	for (let i = 0; i < maxDaysBack; i++) {
-		const dayEntries = await getHourEntriesForDay(userId, searchDate);
+		const dayEntries = await getHourEntriesForDay(
+			userId,
+			fromZonedTime(searchDate, timeZone),
+			timeZone
+		);
 
-		// Check if this day has confirmed entries (all non-draft)
-		if (dayEntries.length > 0 && dayEntries.every((e) => e.status !== "draft")) {
-			sourceEntries = dayEntries;
+		// Check if this day has confirmed entries (all non-draft), hours from Visma aren't copied
+		const ownEntries = dayEntries.filter((e) => e.source === "inside");
+		if (ownEntries.length > 0 && ownEntries.every((e) => e.status !== "draft")) {
+			sourceEntries = ownEntries;
 			break;
 		}
 
@@ -631,29 +1068,33 @@ export async function copyPreviousConfirmedDay(
 	}
 
 	// Copy entries to target date
-	const targetDateStart = startOfDay(toZonedTime(targetDate, TIMEZONE));
+	const targetDateStart = startOfDay(toZonedTime(targetDate, timeZone));
 	const createdEntries: HourEntry[] = [];
 
 	for (const sourceEntry of sourceEntries) {
 		// Calculate the time offset from the source date
-		const sourceStart = toZonedTime(sourceEntry.startTime, TIMEZONE);
+		const sourceStart = toZonedTime(sourceEntry.startTime, timeZone);
 		const startHours = sourceStart.getHours();
 		const startMinutes = sourceStart.getMinutes();
 
 		// Create new start time on target date
 		const newStartTime = new Date(targetDateStart);
 		newStartTime.setHours(startHours, startMinutes, 0, 0);
-		const newStartTimeUtc = fromZonedTime(newStartTime, TIMEZONE);
+		const newStartTimeUtc = fromZonedTime(newStartTime, timeZone);
 
 		let newEndTimeUtc: Date | null = null;
 		if (sourceEntry.endTime) {
-			const sourceEnd = toZonedTime(sourceEntry.endTime, TIMEZONE);
+			const sourceEnd = toZonedTime(sourceEntry.endTime, timeZone);
 			const endHours = sourceEnd.getHours();
 			const endMinutes = sourceEnd.getMinutes();
 
 			const newEndTime = new Date(targetDateStart);
 			newEndTime.setHours(endHours, endMinutes, 0, 0);
-			newEndTimeUtc = fromZonedTime(newEndTime, TIMEZONE);
+			// Segments of overnight entries end at the following midnight
+			if (newEndTime <= newStartTime) {
+				newEndTime.setDate(newEndTime.getDate() + 1);
+			}
+			newEndTimeUtc = fromZonedTime(newEndTime, timeZone);
 		}
 
 		const [newEntry] = await db
@@ -674,5 +1115,102 @@ export async function copyPreviousConfirmedDay(
 		createdEntries.push(newEntry);
 	}
 
+	await recordEntryHistory(
+		actorId,
+		createdEntries.map((after) => ({ event: "create", after }))
+	);
+
 	return createdEntries;
 }
+
+/**
+ * Get the user's running timer, i.e. the latest draft entry without an end time
+ */
+export async function getRunningTimer(userId: number): Promise<HourEntryWithRelations | null> {
+	const [row] = await db
+		.select({
+			entry: hourEntries,
+			phase: phases,
+			case: cases,
+			customer: customers,
+			worktype: worktypes
+		})
+		.from(hourEntries)
+		.leftJoin(phases, eq(hourEntries.phaseId, phases.id))
+		.leftJoin(cases, eq(phases.caseId, cases.id))
+		.leftJoin(customers, eq(cases.customerId, customers.id))
+		.leftJoin(worktypes, eq(hourEntries.worktypeId, worktypes.id))
+		.where(
+			and(
+				eq(hourEntries.userId, userId),
+				isNull(hourEntries.endTime),
+				eq(hourEntries.status, "draft"),
+				eq(hourEntries.source, "inside"),
+				isNull(hourEntries.deletedAt)
+			)
+		)
+		.orderBy(desc(hourEntries.startTime))
+		.limit(1);
+
+	if (!row) return null;
+
+	return {
+		...row.entry,
+		phase:
+			row.phase && row.case && row.customer
+				? {
+						id: row.phase.id,
+						name: row.phase.name,
+						case: {
+							id: row.case.id,
+							name: row.case.name,
+							customer: { id: row.customer.id, name: row.customer.name }
+						}
+					}
+				: null,
+		worktype: row.worktype ? { id: row.worktype.id, name: row.worktype.name } : null
+	};
+}
+
+/**
+ * Stop the user's running timer by filling in its end time
+ * The end time is clamped to the longest supported entry, splitting it at midnight if needed
+ */
+export async function stopTimer(
+	userId: number,
+	at: Date = new Date(),
+	actorId: number = userId
+): Promise<HourEntry> {
+	const running = await getRunningTimer(userId);
+	if (!running) {
+		throw new HourEntryError("No running timer", ErrorCodes.NO_RUNNING_TIMER);
+	}
+
+	const lastSupported = addHours(running.startTime, MAX_ENTRY_HOURS);
+
+	let endTime = startOfMinute(min([at, lastSupported]));
+	if (endTime <= running.startTime) {
+		endTime = addMinutes(running.startTime, 1);
+	}
+
+	return updateHourEntry(userId, running.id, { endTime }, actorId);
+}
+
+/**
+ * Start a timer for the user, stopping the previous one if it is still running
+ */
+export async function startTimer(
+	userId: number,
+	input: Omit<HourEntryInput, "startTime" | "endTime"> = {},
+	actorId: number = userId
+): Promise<HourEntry> {
+	let startTime = startOfMinute(new Date());
+
+	if (await getRunningTimer(userId)) {
+		const stopped = await stopTimer(userId, startTime, actorId);
+		// A timer stopped in the minute it started lasts a minute, the next one starts after it
+		startTime = max([startTime, stopped.endTime!]);
+	}
+
+	return createHourEntry(userId, { ...input, startTime, endTime: null }, actorId);
+}
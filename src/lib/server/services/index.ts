@@ -1,3 +1,4 @@
+export { DEFAULT_TIMEZONE } from "$lib/constants";
 export {
 	createHourEntry,
 	updateHourEntry,
@@ -5,8 +6,14 @@ export {
 	getHourEntriesForMonth,
 	getHourEntriesForDay,
 	confirmDay,
+	unconfirmDay,
+	getRunningTimer,
+	startTimer,
+	stopTimer,
 	calculateTotalMinutes,
 	formatDuration,
+	getUserTimezone,
+	LOGGED_HOUR_SOURCES,
 	HourEntryError,
 	ErrorCodes
 } from "./hour-entries";
@@ -17,9 +24,18 @@ export {
 	handlePrecisionOverlapping,
 	handleOverlapping,
 	applyHoursBalanceRounding,
-	getRoundedDurationMinutes
+	getRoundedDurationMinutes,
+	DEFAULT_ROUNDING_CONFIG
 } from "./rounding";
-export type { RoundedEntry } from "./rounding";
+export type { RoundedEntry, RoundingConfig } from "./rounding";
+
+export {
+	getRoundingRules,
+	resolveRoundingConfig,
+	saveRoundingRule,
+	deleteRoundingRule
+} from "./rounding-rules";
+export type { RoundingRuleInput } from "./rounding-rules";
 
 export {
 	applyMinimumBilling,
@@ -27,3 +43,105 @@ export {
 	getMinBillingDurationMinutes
 } from "./minimum-billing";
 export type { MinimumBillingEntry } from "./minimum-billing";
+
+export {
+	getCaseBillingSettings,
+	updateCaseMinBillableTime,
+	updateCustomerMinBillableTime,
+	getMinBillableTimeHistory
+} from "./case-billing";
+
+export { isValidTimezone, updateUserProfile } from "./profile";
+export type { ProfileInput } from "./profile";
+
+export { updateUserRole, setUserActive } from "./users";
+
+export {
+	getUserCountryCode,
+	getHolidays,
+	isWorkingDay,
+	getCompanyHolidays,
+	saveCompanyHoliday,
+	deleteCompanyHoliday
+} from "./holidays";
+export type { Holiday, CompanyHolidayInput } from "./holidays";
+
+export {
+	getPeriodLocks,
+	getLockedMonths,
+	isPeriodLocked,
+	lockPeriod,
+	unlockPeriod,
+	toMonthKey
+} from "./period-locks";
+export type { PeriodLockInput } from "./period-locks";
+
+export {
+	getEffectiveCaseManagers,
+	getManagerCandidates,
+	getCaseManagerSettings,
+	setCaseManager,
+	setCustomerManager
+} from "./case-managers";
+
+export { recordEntryHistory, getEntryHistory, searchEntryHistory } from "./entry-history";
+export type { EntrySnapshot, EntryChange, EntryHistorySearch } from "./entry-history";
+
+export { getApprovalQueue, approveDay, rejectDay, getLatestDayReview } from "./approvals";
+export type { Reviewer, ApprovalDay } from "./approvals";
+
+export { runMissingHoursReminders } from "./reminders";
+export type { ReminderRunResult } from "./reminders";
+
+export { calculateBillableEntries, getDayBillingPreview } from "./billing";
+export type { BillableEntries, BillingPreview } from "./billing";
+
+export {
+	importCustomers,
+	importProjects,
+	importPhases,
+	importWorktypes,
+	importUsers,
+	importAll,
+	importHours,
+	fetchVismaSnapshot
+} from "./visma-import";
+export type {
+	ImportEntityType,
+	ImportMode,
+	ImportOptions,
+	HoursImportOptions,
+	ImportResult,
+	ImportAllResult,
+	VismaSnapshot
+} from "./visma-import";
+
+export { previewImport, applyImportPreview } from "./visma-import-preview";
+export type {
+	PreviewEntityType,
+	DiffItem,
+	EntityDiff,
+	ImportPreview
+} from "./visma-import-preview";
+
+export { exportConfirmedEntries } from "./visma-export";
+export type { ExportOptions, ExportResult } from "./visma-export";
+
+export { getReconciliationReport, repushHourEntry, relinkHourEntry } from "./visma-reconciliation";
+export type {
+	ReconciliationField,
+	ReconciliationRecord,
+	LocalReconciliationRecord,
+	MissingRecord,
+	MismatchedRecord,
+	ReconciliationReport
+} from "./visma-reconciliation";
+
+export {
+	requestCorrection,
+	getPendingCorrectionEntryIds,
+	getCorrectionRequests,
+	approveCorrection,
+	rejectCorrection
+} from "./corrections";
+export type { CorrectionInput } from "./corrections";
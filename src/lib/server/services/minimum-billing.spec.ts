@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import type { RoundedEntry } from "./rounding";
+import { applyMinimumBilling, getMinBillingDurationMinutes } from "./minimum-billing";
+
+const TIMEZONE = "Europe/Helsinki";
+
+function rounded(id: number, start: string, end: string, phaseId = 1): RoundedEntry {
+	const startTime = new Date(start);
+	const endTime = new Date(end);
+
+	return {
+		hourEntryId: id,
+		phaseId,
+		worktypeId: 1,
+		startTime,
+		endTime,
+		description: null,
+		source: "inside-rounded",
+		originalStartTime: startTime,
+		originalEndTime: endTime,
+		precisionRounding: { startRounded: false, endRounded: false }
+	};
+}
+
+// Every phase belongs to case 1 with the given minimum
+function minimum(minBillableTimeInMin: number) {
+	return () => ({ caseId: 1, minBillableTimeInMin });
+}
+
+const noNextEntry = () => null;
+
+describe("applyMinimumBilling", () => {
+	it("pads a short block up to the minimum", () => {
+		const padding = applyMinimumBilling(
+			[rounded(1, "2024-01-15T08:00:00Z", "2024-01-15T08:10:00Z")],
+			minimum(30),
+			noNextEntry,
+			TIMEZONE
+		);
+
+		expect(padding).toHaveLength(1);
+		expect(padding[0]).toMatchObject({
+			hourEntryId: 1,
+			originalHourEntryId: 1,
+			startTime: new Date("2024-01-15T08:10:00Z"),
+			endTime: new Date("2024-01-15T08:30:00Z"),
+			source: "inside-minimum-billable-time"
+		});
+		expect(getMinBillingDurationMinutes(padding[0])).toBe(20);
+	});
+
+	it("does not pad blocks that meet the minimum or cases without one", () => {
+		const entries = [rounded(1, "2024-01-15T08:00:00Z", "2024-01-15T08:30:00Z")];
+
+		expect(applyMinimumBilling(entries, minimum(30), noNextEntry, TIMEZONE)).toEqual([]);
+		expect(applyMinimumBilling(entries, minimum(0), noNextEntry, TIMEZONE)).toEqual([]);
+		expect(applyMinimumBilling(entries, () => null, noNextEntry, TIMEZONE)).toEqual([]);
+	});
+
+	it("combines adjacent entries of a case into one block", () => {
+		const padding = applyMinimumBilling(
+			[
+				rounded(1, "2024-01-15T08:00:00Z", "2024-01-15T08:10:00Z"),
+				rounded(2, "2024-01-15T08:10:00Z", "2024-01-15T08:20:00Z")
+			],
+			minimum(30),
+			noNextEntry,
+			TIMEZONE
+		);
+
+		expect(padding).toHaveLength(1);
+		expect(padding[0].startTime).toEqual(new Date("2024-01-15T08:20:00Z"));
+		expect(padding[0].endTime).toEqual(new Date("2024-01-15T08:30:00Z"));
+	});
+
+	it("stops padding where the next entry starts", () => {
+		const padding = applyMinimumBilling(
+			[rounded(1, "2024-01-15T08:00:00Z", "2024-01-15T08:10:00Z")],
+			minimum(30),
+			() => new Date("2024-01-15T08:15:00Z"),
+			TIMEZONE
+		);
+
+		expect(padding[0].endTime).toEqual(new Date("2024-01-15T08:15:00Z"));
+	});
+
+	it("stops padding at local midnight", () => {
+		// 23:50 - 23:55 in Helsinki (UTC+2)
+		const padding = applyMinimumBilling(
+			[rounded(1, "2024-01-15T21:50:00Z", "2024-01-15T21:55:00Z")],
+			minimum(30),
+			noNextEntry,
+			TIMEZONE
+		);
+
+		expect(padding[0].endTime).toEqual(new Date("2024-01-15T22:00:00Z"));
+	});
+
+	it("does not pad a block ending exactly at midnight into the next day", () => {
+		const padding = applyMinimumBilling(
+			[rounded(1, "2024-01-15T21:50:00Z", "2024-01-15T22:00:00Z")],
+			minimum(30),
+			noNextEntry,
+			TIMEZONE
+		);
+
+		expect(padding).toEqual([]);
+	});
+
+	it("finds local midnight on the days clocks change", () => {
+		// 23:40 - 23:50 local after clocks went forward (UTC+3)
+		const spring = applyMinimumBilling(
+			[rounded(1, "2024-03-31T20:40:00Z", "2024-03-31T20:50:00Z")],
+			minimum(60),
+			noNextEntry,
+			TIMEZONE
+		);
+		// 23:40 - 23:50 local after clocks went back (UTC+2)
+		const autumn = applyMinimumBilling(
+			[rounded(1, "2024-10-27T21:40:00Z", "2024-10-27T21:50:00Z")],
+			minimum(60),
+			noNextEntry,
+			TIMEZONE
+		);
+
+		expect(spring[0].endTime).toEqual(new Date("2024-03-31T21:00:00Z"));
+		expect(autumn[0].endTime).toEqual(new Date("2024-10-27T22:00:00Z"));
+	});
+});
@@ -1,3 +1,6 @@
+import { DEFAULT_TIMEZONE } from "$lib/constants";
+import { addDays, startOfDay } from "date-fns";
+import { toZonedTime, fromZonedTime } from "date-fns-tz";
 import type { RoundedEntry } from "./rounding";
 
 export interface MinimumBillingEntry {
@@ -22,9 +25,6 @@ interface CombinedDuration {
 	entries: RoundedEntry[];
 }
 
-// End of day limit in local time (23:55)
-const END_OF_DAY_LIMIT_MINUTES = 23 * 60 + 55; // 23:55
-
 /**
  * Combine overlapping or adjacent entries into gapless time blocks
  */
@@ -75,12 +75,12 @@ function getBlockDurationMinutes(block: CombinedDuration): number {
 }
 
 /**
- * Get end of day limit (23:55) for a given date
+ * Get the local midnight ending the day of a block end
+ * A block ending exactly at midnight belongs to the day before, so padding never crosses days
  */
-function getEndOfDayLimit(date: Date): Date {
-	const result = new Date(date);
-	result.setHours(23, 55, 0, 0);
-	return result;
+function getEndOfDayLimit(blockEnd: Date, timeZone: string): Date {
+	const localDay = startOfDay(toZonedTime(new Date(blockEnd.getTime() - 1), timeZone));
+	return fromZonedTime(addDays(localDay, 1), timeZone);
 }
 
 /**
@@ -90,7 +90,8 @@ function getEndOfDayLimit(date: Date): Date {
 export function applyMinimumBilling(
 	entries: RoundedEntry[],
 	getCaseConfig: (phaseId: number | null) => CaseConfig | null,
-	getNextEntryStart: (afterTime: Date, excludeEntryIds: number[]) => Date | null
+	getNextEntryStart: (afterTime: Date, excludeEntryIds: number[]) => Date | null,
+	timeZone: string = DEFAULT_TIMEZONE
 ): MinimumBillingEntry[] {
 	const paddingEntries: MinimumBillingEntry[] = [];
 
@@ -129,7 +130,7 @@ export function applyMinimumBilling(
 			const paddingStart = block.endTime;
 
 			// Find where padding can end
-			const endOfDayLimit = getEndOfDayLimit(paddingStart);
+			const endOfDayLimit = getEndOfDayLimit(paddingStart, timeZone);
 			const excludeIds = block.entries.map((e) => e.hourEntryId);
 			const nextStart = getNextEntryStart(paddingStart, excludeIds);
 
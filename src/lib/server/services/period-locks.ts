@@ -0,0 +1,124 @@
+import { db } from "$lib/server/db";
+import { periodLocks, users, type PeriodLock } from "$lib/server/db/schema";
+import { eq, and, or, isNull, inArray, desc } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { formatInTimeZone } from "date-fns-tz";
+
+export interface PeriodLockInput {
+	month: string; // yyyy-MM
+	userId?: number | null;
+	note?: string | null;
+}
+
+/**
+ * Get the "yyyy-MM" month a moment falls in for a timezone
+ */
+export function toMonthKey(date: Date, timeZone: string): string {
+	return formatInTimeZone(date, timeZone, "yyyy-MM");
+}
+
+/**
+ * Get the months locked for a user, either for everyone or for the user only
+ */
+export async function getLockedMonths(userId: number, months: string[]): Promise<string[]> {
+	if (months.length === 0) return [];
+
+	const rows = await db
+		.select({ month: periodLocks.month })
+		.from(periodLocks)
+		.where(
+			and(
+				inArray(periodLocks.month, months),
+				or(isNull(periodLocks.userId), eq(periodLocks.userId, userId))
+			)
+		);
+
+	return Array.from(new Set(rows.map((r) => r.month))).sort();
+}
+
+/**
+ * Check whether the month of a moment is locked for a user
+ */
+export async function isPeriodLocked(
+	userId: number,
+	date: Date,
+	timeZone: string
+): Promise<boolean> {
+	const locked = await getLockedMonths(userId, [toMonthKey(date, timeZone)]);
+	return locked.length > 0;
+}
+
+/**
+ * Get all period locks, newest month first, with the names of the people involved
+ */
+export async function getPeriodLocks() {
+	const lockedByUsers = alias(users, "locked_by_users");
+
+	const rows = await db
+		.select({
+			lock: periodLocks,
+			userFirstName: users.firstName,
+			userLastName: users.lastName,
+			lockedByFirstName: lockedByUsers.firstName,
+			lockedByLastName: lockedByUsers.lastName
+		})
+		.from(periodLocks)
+		.leftJoin(users, eq(periodLocks.userId, users.id))
+		.innerJoin(lockedByUsers, eq(periodLocks.lockedBy, lockedByUsers.id))
+		.orderBy(desc(periodLocks.month), desc(periodLocks.createdAt));
+
+	return rows.map((row) => ({
+		...row.lock,
+		userName: row.lock.userId ? `${row.userFirstName} ${row.userLastName}` : null,
+		lockedByName: `${row.lockedByFirstName} ${row.lockedByLastName}`
+	}));
+}
+
+/**
+ * Lock a month for everyone or for one user
+ * There is at most one lock per month and user
+ */
+export async function lockPeriod(input: PeriodLockInput, lockedBy: number): Promise<PeriodLock> {
+	const userId = input.userId ?? null;
+
+	const [existing] = await db
+		.select()
+		.from(periodLocks)
+		.where(
+			and(
+				eq(periodLocks.month, input.month),
+				userId !== null ? eq(periodLocks.userId, userId) : isNull(periodLocks.userId)
+			)
+		)
+		.limit(1);
+
+	if (existing) {
+		throw new Error(
+			`${input.month} is already locked${userId !== null ? " for this user" : ""}`
+		);
+	}
+
+	const [created] = await db
+		.insert(periodLocks)
+		.values({ month: input.month, userId, note: input.note || null, lockedBy })
+		.returning();
+
+	console.log(
+		`[PeriodLocks] User ${lockedBy} locked ${input.month} for ${userId !== null ? `user ${userId}` : "all users"}`
+	);
+
+	return created;
+}
+
+/**
+ * Remove a period lock, opening the month for changes again
+ */
+export async function unlockPeriod(lockId: number, unlockedBy: number): Promise<void> {
+	const [removed] = await db.delete(periodLocks).where(eq(periodLocks.id, lockId)).returning();
+
+	if (!removed) {
+		throw new Error("Period lock not found");
+	}
+
+	console.log(`[PeriodLocks] User ${unlockedBy} unlocked ${removed.month} (lock ${lockId})`);
+}
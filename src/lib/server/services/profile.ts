@@ -0,0 +1,50 @@
+import { db } from "$lib/server/db";
+import { users } from "$lib/server/db/schema";
+import { getSupportedCountries } from "$lib/server/holidays";
+import { eq } from "drizzle-orm";
+
+export interface ProfileInput {
+	timezone?: string;
+	countryCode?: string;
+}
+
+/**
+ * Check that a timezone is a known IANA timezone name
+ */
+export function isValidTimezone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Set the timezone the user's days are calculated in and the country whose holidays apply
+ */
+export async function updateUserProfile(userId: number, input: ProfileInput): Promise<void> {
+	const changes: Partial<typeof users.$inferInsert> = {};
+
+	if (input.timezone !== undefined) {
+		if (!isValidTimezone(input.timezone)) {
+			throw new Error(`Unknown timezone: ${input.timezone}`);
+		}
+		changes.timezone = input.timezone;
+	}
+
+	if (input.countryCode !== undefined) {
+		const countryCode = input.countryCode.toUpperCase();
+		if (!getSupportedCountries().includes(countryCode)) {
+			throw new Error(`No holiday calendar for country: ${countryCode}`);
+		}
+		changes.countryCode = countryCode;
+	}
+
+	if (Object.keys(changes).length === 0) return;
+
+	await db
+		.update(users)
+		.set({ ...changes, updatedAt: new Date() })
+		.where(eq(users.id, userId));
+}
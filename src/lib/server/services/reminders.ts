@@ -0,0 +1,269 @@
+import { db } from "$lib/server/db";
+import { users, hourEntries, phases, notificationLogs, type User } from "$lib/server/db/schema";
+import {
+	sendMissingHoursNotification,
+	sendPMReport,
+	type PMReportData
+} from "$lib/server/integrations/email";
+import { DEFAULT_COUNTRY_CODE } from "$lib/server/holidays";
+import { eq, and, gte, lt, inArray, isNull } from "drizzle-orm";
+import {
+	addDays,
+	eachDayOfInterval,
+	endOfMonth,
+	format,
+	isWeekend,
+	parseISO,
+	subMonths
+} from "date-fns";
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+import { getHolidays } from "./holidays";
+import { LOGGED_HOUR_SOURCES } from "./hour-entries";
+import { getEffectiveCaseManagers } from "./case-managers";
+
+// How many days back users are reminded about missing or unconfirmed hours
+const REMINDER_LOOKBACK_DAYS = 14;
+
+export interface ReminderRunResult {
+	usersChecked: number;
+	remindersSent: number;
+	remindersSkipped: number;
+	pmReportMonth: string | null;
+	pmReportSent: boolean;
+}
+
+interface DayStatus {
+	missingDays: string[]; // yyyy-MM-dd
+	unconfirmedDays: string[]; // yyyy-MM-dd
+}
+
+/**
+ * Get the working days between two "yyyy-MM-dd" days (inclusive) in a country
+ */
+async function getWorkingDays(
+	countryCode: string,
+	from: string,
+	to: string,
+	holidayCache: Map<string, Set<string>>
+): Promise<string[]> {
+	if (from > to) return [];
+
+	const cacheKey = `${countryCode}:${from}:${to}`;
+	if (!holidayCache.has(cacheKey)) {
+		const holidays = await getHolidays(countryCode, from, to);
+		holidayCache.set(cacheKey, new Set(holidays.map((h) => h.date)));
+	}
+	const holidays = holidayCache.get(cacheKey)!;
+
+	return eachDayOfInterval({ start: parseISO(from), end: parseISO(to) })
+		.filter((day) => !isWeekend(day))
+		.map((day) => format(day, "yyyy-MM-dd"))
+		.filter((day) => !holidays.has(day));
+}
+
+/**
+ * Find the working days of a user with no entries or with draft entries
+ * Days before the user was created are not counted
+ */
+async function getDayStatus(
+	user: User,
+	from: string,
+	to: string,
+	holidayCache: Map<string, Set<string>>
+): Promise<DayStatus> {
+	const createdDay = formatInTimeZone(user.createdAt, user.timezone, "yyyy-MM-dd");
+	const start = createdDay > from ? createdDay : from;
+
+	const workingDays = await getWorkingDays(
+		user.countryCode || DEFAULT_COUNTRY_CODE,
+		start,
+		to,
+		holidayCache
+	);
+	if (workingDays.length === 0) return { missingDays: [], unconfirmedDays: [] };
+
+	const entries = await db
+		.select({ startTime: hourEntries.startTime, status: hourEntries.status })
+		.from(hourEntries)
+		.where(
+			and(
+				eq(hourEntries.userId, user.id),
+				gte(hourEntries.startTime, fromZonedTime(start, user.timezone)),
+				lt(hourEntries.startTime, fromZonedTime(addDays(parseISO(to), 1), user.timezone)),
+				inArray(hourEntries.source, LOGGED_HOUR_SOURCES),
+				isNull(hourEntries.deletedAt)
+			)
+		);
+
+	const loggedDays = new Set<string>();
+	const draftDays = new Set<string>();
+	for (const entry of entries) {
+		const day = formatInTimeZone(entry.startTime, user.timezone, "yyyy-MM-dd");
+		loggedDays.add(day);
+		if (entry.status === "draft") draftDays.add(day);
+	}
+
+	return {
+		missingDays: workingDays.filter((day) => !loggedDays.has(day)),
+		unconfirmedDays: workingDays.filter((day) => draftDays.has(day))
+	};
+}
+
+/**
+ * Get the managers of the cases a user logged hours on between two days (inclusive)
+ */
+async function getManagerIds(user: User, from: string, to: string): Promise<number[]> {
+	const rows = await db
+		.selectDistinct({ caseId: phases.caseId })
+		.from(hourEntries)
+		.innerJoin(phases, eq(hourEntries.phaseId, phases.id))
+		.where(
+			and(
+				eq(hourEntries.userId, user.id),
+				gte(hourEntries.startTime, fromZonedTime(from, user.timezone)),
+				lt(hourEntries.startTime, fromZonedTime(addDays(parseISO(to), 1), user.timezone)),
+				inArray(hourEntries.source, LOGGED_HOUR_SOURCES),
+				isNull(hourEntries.deletedAt)
+			)
+		);
+
+	const managers = await getEffectiveCaseManagers(rows.map((r) => r.caseId));
+	return Array.from(new Set(managers.values())).filter((id): id is number => id !== null);
+}
+
+/**
+ * Check whether a notification with the reference key has already been sent
+ */
+async function wasSent(referenceKey: string): Promise<boolean> {
+	const [log] = await db
+		.select({ id: notificationLogs.id })
+		.from(notificationLogs)
+		.where(
+			and(
+				eq(notificationLogs.referenceKey, referenceKey),
+				eq(notificationLogs.status, "sent")
+			)
+		)
+		.limit(1);
+
+	return !!log;
+}
+
+/**
+ * Remind active users about missing and unconfirmed hours of recent working days,
+ * and send the PM report of the previous month on the first day of the next one
+ * Each reminder is sent once per newest flagged day, so running the job again is safe
+ */
+export async function runMissingHoursReminders(now = new Date()): Promise<ReminderRunResult> {
+	const activeUsers = await db.select().from(users).where(eq(users.active, true));
+	const holidayCache = new Map<string, Set<string>>();
+
+	const result: ReminderRunResult = {
+		usersChecked: 0,
+		remindersSent: 0,
+		remindersSkipped: 0,
+		pmReportMonth: null,
+		pmReportSent: false
+	};
+
+	// Remind users about recent days, up to yesterday in their own timezone
+	for (const user of activeUsers) {
+		result.usersChecked++;
+
+		const today = parseISO(formatInTimeZone(now, user.timezone, "yyyy-MM-dd"));
+		const from = format(addDays(today, -REMINDER_LOOKBACK_DAYS), "yyyy-MM-dd");
+		const to = format(addDays(today, -1), "yyyy-MM-dd");
+
+		const { missingDays, unconfirmedDays } = await getDayStatus(user, from, to, holidayCache);
+		if (missingDays.length === 0 && unconfirmedDays.length === 0) continue;
+
+		const newestDay = [...missingDays, ...unconfirmedDays].sort().at(-1)!;
+		const referenceKey = `missing-hours:${user.id}:${newestDay}`;
+		if (await wasSent(referenceKey)) {
+			result.remindersSkipped++;
+			continue;
+		}
+
+		const sent = await sendMissingHoursNotification({
+			userId: user.id,
+			email: user.email,
+			firstName: user.firstName,
+			daysWithMissingHours: missingDays.map((day) => parseISO(day)),
+			daysWithUnconfirmedHours: unconfirmedDays.map((day) => parseISO(day)),
+			referenceKey
+		});
+		if (sent) result.remindersSent++;
+	}
+
+	// Report the previous month on the first day of the next one in each user's timezone, to the
+	// managers of the cases the user worked on; users without a managed case are reported to the
+	// shared PM inbox
+	const activeEmails = new Map(activeUsers.map((u) => [u.id, u.email]));
+	const reports = new Map<
+		string,
+		{
+			month: string;
+			managerId: number | null;
+			usersWithMissingHours: PMReportData["usersWithMissingHours"];
+		}
+	>();
+
+	for (const user of activeUsers) {
+		const today = parseISO(formatInTimeZone(now, user.timezone, "yyyy-MM-dd"));
+		if (today.getDate() !== 1) continue;
+
+		const previousMonth = subMonths(today, 1);
+		const month = format(previousMonth, "yyyy-MM");
+		const monthStart = format(previousMonth, "yyyy-MM-dd");
+		const monthEnd = format(endOfMonth(previousMonth), "yyyy-MM-dd");
+		result.pmReportMonth = month;
+
+		const { missingDays, unconfirmedDays } = await getDayStatus(
+			user,
+			monthStart,
+			monthEnd,
+			holidayCache
+		);
+		const missingDaysCount = new Set([...missingDays, ...unconfirmedDays]).size;
+		if (missingDaysCount === 0) continue;
+
+		const managerIds = (await getManagerIds(user, monthStart, monthEnd)).filter(
+			(id) => id !== user.id && activeEmails.has(id)
+		);
+
+		for (const managerId of managerIds.length > 0 ? managerIds : [null]) {
+			const key = `${month}:${managerId}`;
+			if (!reports.has(key)) {
+				reports.set(key, { month, managerId, usersWithMissingHours: [] });
+			}
+			reports.get(key)!.usersWithMissingHours.push({
+				firstName: user.firstName,
+				lastName: user.lastName,
+				email: user.email,
+				missingDaysCount
+			});
+		}
+	}
+
+	for (const { month, managerId, usersWithMissingHours } of reports.values()) {
+		const referenceKey =
+			managerId === null
+				? `missing-hours-pm-report:${month}`
+				: `missing-hours-pm-report:${month}:${managerId}`;
+		if (await wasSent(referenceKey)) continue;
+
+		const sent = await sendPMReport({
+			month,
+			usersWithMissingHours,
+			referenceKey,
+			recipient: managerId === null ? undefined : activeEmails.get(managerId)
+		});
+		if (sent) result.pmReportSent = true;
+	}
+
+	console.log(
+		`[Reminders] Checked ${result.usersChecked} users, sent ${result.remindersSent} reminders${result.pmReportMonth ? `, PM report for ${result.pmReportMonth}: ${result.pmReportSent ? "sent" : "not sent"}` : ""}`
+	);
+
+	return result;
+}
@@ -0,0 +1,135 @@
+import { db } from "$lib/server/db";
+import {
+	roundingRules,
+	customers,
+	cases,
+	type RoundingRule,
+	type RoundingDirection
+} from "$lib/server/db/schema";
+import { eq, and, isNull, asc } from "drizzle-orm";
+import { DEFAULT_ROUNDING_CONFIG, type RoundingConfig } from "./rounding";
+
+export interface RoundingRuleInput {
+	customerId?: number | null;
+	caseId?: number | null;
+	intervalMinutes: number;
+	startDirection: RoundingDirection;
+	endDirection: RoundingDirection;
+}
+
+/**
+ * Convert a stored rule to the config used by the rounding algorithm
+ */
+function toRoundingConfig(rule: RoundingRule): RoundingConfig {
+	return {
+		intervalMinutes: rule.intervalMinutes,
+		startDirection: rule.startDirection as RoundingDirection,
+		endDirection: rule.endDirection as RoundingDirection
+	};
+}
+
+/**
+ * Get all rounding rules with their customer and case names
+ */
+export async function getRoundingRules() {
+	const result = await db
+		.select({
+			rule: roundingRules,
+			customerName: customers.name,
+			caseName: cases.name
+		})
+		.from(roundingRules)
+		.leftJoin(cases, eq(roundingRules.caseId, cases.id))
+		.leftJoin(customers, eq(roundingRules.customerId, customers.id))
+		.orderBy(asc(customers.name), asc(cases.name));
+
+	return result.map((row) => ({
+		...row.rule,
+		customerName: row.customerName,
+		caseName: row.caseName
+	}));
+}
+
+/**
+ * Pick the rule for a case, falling back to its customer and then the global rule
+ */
+export function resolveRoundingConfig(
+	rules: RoundingRule[],
+	caseId: number | null,
+	customerId: number | null
+): RoundingConfig {
+	const caseRule = caseId !== null ? rules.find((r) => r.caseId === caseId) : undefined;
+	if (caseRule) return toRoundingConfig(caseRule);
+
+	const customerRule =
+		customerId !== null
+			? rules.find((r) => r.caseId === null && r.customerId === customerId)
+			: undefined;
+	if (customerRule) return toRoundingConfig(customerRule);
+
+	const globalRule = rules.find((r) => r.caseId === null && r.customerId === null);
+	if (globalRule) return toRoundingConfig(globalRule);
+
+	return DEFAULT_ROUNDING_CONFIG;
+}
+
+/**
+ * Create or update the rounding rule for a case, customer or the global default
+ * A case rule takes precedence over its customer, so only one of them is stored
+ */
+export async function saveRoundingRule(input: RoundingRuleInput): Promise<RoundingRule> {
+	if (input.intervalMinutes < 0 || input.intervalMinutes > 60) {
+		throw new Error("Rounding interval must be between 0 and 60 minutes");
+	}
+
+	const caseId = input.caseId ?? null;
+	const customerId = caseId !== null ? null : (input.customerId ?? null);
+
+	const [existing] = await db
+		.select()
+		.from(roundingRules)
+		.where(
+			and(
+				caseId !== null ? eq(roundingRules.caseId, caseId) : isNull(roundingRules.caseId),
+				customerId !== null
+					? eq(roundingRules.customerId, customerId)
+					: isNull(roundingRules.customerId)
+			)
+		)
+		.limit(1);
+
+	if (existing) {
+		const [updated] = await db
+			.update(roundingRules)
+			.set({
+				intervalMinutes: input.intervalMinutes,
+				startDirection: input.startDirection,
+				endDirection: input.endDirection,
+				updatedAt: new Date()
+			})
+			.where(eq(roundingRules.id, existing.id))
+			.returning();
+
+		return updated;
+	}
+
+	const [created] = await db
+		.insert(roundingRules)
+		.values({
+			customerId,
+			caseId,
+			intervalMinutes: input.intervalMinutes,
+			startDirection: input.startDirection,
+			endDirection: input.endDirection
+		})
+		.returning();
+
+	return created;
+}
+
+/**
+ * Delete a rounding rule
+ */
+export async function deleteRoundingRule(ruleId: number): Promise<void> {
+	await db.delete(roundingRules).where(eq(roundingRules.id, ruleId));
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import type { HourEntry } from "$lib/server/db/schema";
+import {
+	applyPrecisionRounding,
+	applyHoursBalanceRounding,
+	getRoundedDurationMinutes,
+	type RoundingConfig
+} from "./rounding";
+
+function entry(id: number, start: string, end: string | null, phaseId = 1): HourEntry {
+	return {
+		id,
+		userId: 1,
+		phaseId,
+		worktypeId: 1,
+		description: null,
+		issueCode: null,
+		startTime: new Date(`2024-01-15T${start}:00Z`),
+		endTime: end ? new Date(`2024-01-15T${end}:00Z`) : null,
+		source: "inside",
+		status: "approved",
+		vismaGuid: null,
+		originalHourEntryId: null,
+		segmentOfHourEntryId: null,
+		unconfirmedBy: null,
+		unconfirmedAt: null,
+		deletedAt: null,
+		createdAt: new Date(),
+		updatedAt: new Date()
+	};
+}
+
+function at(time: string): Date {
+	return new Date(`2024-01-15T${time}:00Z`);
+}
+
+describe("applyPrecisionRounding", () => {
+	it("rounds the start down and the end up to 5 minutes by default", () => {
+		const [rounded] = applyPrecisionRounding([entry(1, "09:02", "09:58")]);
+
+		expect(rounded.startTime).toEqual(at("09:00"));
+		expect(rounded.endTime).toEqual(at("10:00"));
+		expect(rounded.precisionRounding).toEqual({ startRounded: true, endRounded: true });
+	});
+
+	it("applies the directions and interval of the entry's rule", () => {
+		const rule: RoundingConfig = {
+			intervalMinutes: 15,
+			startDirection: "nearest",
+			endDirection: "down"
+		};
+		const [rounded] = applyPrecisionRounding([entry(1, "09:08", "10:14")], () => rule);
+
+		expect(rounded.startTime).toEqual(at("09:15"));
+		expect(rounded.endTime).toEqual(at("10:00"));
+	});
+
+	it("rounds to the nearest interval in both directions", () => {
+		const rule: RoundingConfig = {
+			intervalMinutes: 15,
+			startDirection: "nearest",
+			endDirection: "nearest"
+		};
+		const [rounded] = applyPrecisionRounding([entry(1, "09:07", "10:08")], () => rule);
+
+		expect(rounded.startTime).toEqual(at("09:00"));
+		expect(rounded.endTime).toEqual(at("10:15"));
+	});
+
+	it("leaves times alone for the none direction and a zero interval", () => {
+		const none: RoundingConfig = {
+			intervalMinutes: 15,
+			startDirection: "none",
+			endDirection: "up"
+		};
+		const off: RoundingConfig = {
+			intervalMinutes: 0,
+			startDirection: "down",
+			endDirection: "up"
+		};
+
+		const [withNone] = applyPrecisionRounding([entry(1, "09:07", "10:08")], () => none);
+		const [withOff] = applyPrecisionRounding([entry(1, "09:07", "10:08")], () => off);
+
+		expect(withNone.startTime).toEqual(at("09:07"));
+		expect(withNone.endTime).toEqual(at("10:15"));
+		expect(withOff.startTime).toEqual(at("09:07"));
+		expect(withOff.endTime).toEqual(at("10:08"));
+		expect(withOff.precisionRounding).toEqual({ startRounded: false, endRounded: false });
+	});
+
+	it("uses the rule of each entry's phase", () => {
+		const rules: Record<number, RoundingConfig> = {
+			1: { intervalMinutes: 30, startDirection: "down", endDirection: "up" },
+			2: { intervalMinutes: 5, startDirection: "down", endDirection: "up" }
+		};
+		const rounded = applyPrecisionRounding(
+			[entry(1, "09:10", "09:40", 1), entry(2, "11:02", "11:33", 2)],
+			(phaseId) => rules[phaseId!]
+		);
+
+		expect(rounded.map((r) => [r.startTime, r.endTime])).toEqual([
+			[at("09:00"), at("10:00")],
+			[at("11:00"), at("11:35")]
+		]);
+	});
+
+	it("keeps the logged times when rounding would collapse the entry", () => {
+		const rule: RoundingConfig = {
+			intervalMinutes: 5,
+			startDirection: "up",
+			endDirection: "down"
+		};
+		const [rounded] = applyPrecisionRounding([entry(1, "09:01", "09:04")], () => rule);
+
+		expect(rounded.startTime).toEqual(at("09:01"));
+		expect(rounded.endTime).toEqual(at("09:04"));
+	});
+
+	it("skips ongoing entries", () => {
+		expect(applyPrecisionRounding([entry(1, "09:00", null)])).toEqual([]);
+	});
+});
+
+describe("applyHoursBalanceRounding", () => {
+	it("postpones an entry overlapping the previous one by a rounding interval for the same customer", () => {
+		const rounded = applyHoursBalanceRounding(
+			[entry(1, "09:00", "09:57"), entry(2, "09:57", "10:30")],
+			() => 100
+		);
+
+		expect(rounded.map((r) => [r.startTime, r.endTime, r.source])).toEqual([
+			[at("09:00"), at("10:00"), "inside-rounded"],
+			[at("10:00"), at("10:30"), "inside-rounded"]
+		]);
+	});
+
+	it("marks a rounding overlap between different customers as overlapping", () => {
+		const rounded = applyHoursBalanceRounding(
+			[entry(1, "09:00", "09:57", 1), entry(2, "09:57", "10:30", 2)],
+			(phaseId) => phaseId
+		);
+
+		expect(rounded[1].startTime).toEqual(at("09:55"));
+		expect(rounded[1].source).toBe("inside-rounded-overlapping");
+	});
+
+	it("marks entries logged on top of each other as overlapping", () => {
+		const rounded = applyHoursBalanceRounding(
+			[entry(1, "09:00", "11:00"), entry(2, "10:00", "10:30")],
+			() => 100
+		);
+
+		expect(rounded.map((r) => r.source)).toEqual([
+			"inside-rounded",
+			"inside-rounded-overlapping"
+		]);
+	});
+});
+
+describe("getRoundedDurationMinutes", () => {
+	it("returns the rounded duration in minutes", () => {
+		const [rounded] = applyPrecisionRounding([entry(1, "09:02", "10:28")]);
+
+		expect(getRoundedDurationMinutes(rounded)).toBe(90);
+	});
+});
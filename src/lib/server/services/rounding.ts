@@ -1,6 +1,19 @@
-import type { HourEntry } from "$lib/server/db/schema";
+import type { HourEntry, RoundingDirection } from "$lib/server/db/schema";
 
-const ROUNDING_INTERVAL_MINUTES = 5;
+export interface RoundingConfig {
+	intervalMinutes: number; // 0 = no rounding
+	startDirection: RoundingDirection;
+	endDirection: RoundingDirection;
+}
+
+// Used when no rule is configured for the case, customer or globally
+export const DEFAULT_ROUNDING_CONFIG: RoundingConfig = {
+	intervalMinutes: 5,
+	startDirection: "down",
+	endDirection: "up"
+};
+
+const getDefaultRoundingConfig = () => DEFAULT_ROUNDING_CONFIG;
 
 export interface RoundedEntry {
 	hourEntryId: number;
@@ -39,6 +52,32 @@ function roundUp(date: Date, intervalMinutes: number): Date {
 	return new Date(Math.ceil(date.getTime() / ms) * ms);
 }
 
+/**
+ * Round a time to the NEAREST interval
+ */
+function roundNearest(date: Date, intervalMinutes: number): Date {
+	const ms = intervalMinutes * 60 * 1000;
+	return new Date(Math.round(date.getTime() / ms) * ms);
+}
+
+/**
+ * Round a time according to a rounding direction
+ */
+function roundTime(date: Date, intervalMinutes: number, direction: RoundingDirection): Date {
+	if (intervalMinutes <= 0) return date;
+
+	switch (direction) {
+		case "down":
+			return roundDown(date, intervalMinutes);
+		case "up":
+			return roundUp(date, intervalMinutes);
+		case "nearest":
+			return roundNearest(date, intervalMinutes);
+		case "none":
+			return date;
+	}
+}
+
 /**
  * Check if two time ranges overlap
  */
@@ -58,17 +97,32 @@ function getOverlapMs(start1: Date, end1: Date, start2: Date, end2: Date): numbe
 
 /**
  * Apply precision rounding to hour entries
- * Step 1: Round start time DOWN and end time UP to 5-minute intervals
+ * Step 1: Round start and end times to the interval of the entry's rounding rule
+ * (by default start DOWN and end UP to 5-minute intervals)
  */
-export function applyPrecisionRounding(entries: HourEntry[]): RoundedEntry[] {
+export function applyPrecisionRounding(
+	entries: HourEntry[],
+	getRoundingConfig: (phaseId: number | null) => RoundingConfig = getDefaultRoundingConfig
+): RoundedEntry[] {
 	return entries
 		.filter((entry) => entry.endTime !== null)
 		.map((entry) => {
 			const originalStart = entry.startTime;
 			const originalEnd = entry.endTime!;
+			const config = getRoundingConfig(entry.phaseId);
 
-			const roundedStart = roundDown(originalStart, ROUNDING_INTERVAL_MINUTES);
-			const roundedEnd = roundUp(originalEnd, ROUNDING_INTERVAL_MINUTES);
+			let roundedStart = roundTime(
+				originalStart,
+				config.intervalMinutes,
+				config.startDirection
+			);
+			let roundedEnd = roundTime(originalEnd, config.intervalMinutes, config.endDirection);
+
+			// Never let rounding collapse an entry - keep the logged times instead
+			if (roundedEnd <= roundedStart) {
+				roundedStart = originalStart;
+				roundedEnd = originalEnd;
+			}
 
 			return {
 				hourEntryId: entry.id,
@@ -91,18 +145,26 @@ export function applyPrecisionRounding(entries: HourEntry[]): RoundedEntry[] {
 
 /**
  * Handle precision overlapping for same customer entries
- * Step 2: If 5-min overlap occurred due to rounding and entries are for same customer,
- * postpone second entry by 5 minutes
+ * Step 2: If an overlap of exactly one rounding interval occurred due to rounding and entries
+ * are for same customer, postpone second entry by that interval
  */
 export function handlePrecisionOverlapping(
 	entries: RoundedEntry[],
-	getCustomerId: (phaseId: number | null) => number | null
+	getCustomerId: (phaseId: number | null) => number | null,
+	getRoundingConfig: (phaseId: number | null) => RoundingConfig = getDefaultRoundingConfig
 ): RoundedEntry[] {
 	const result: RoundedEntry[] = [];
 	const sorted = [...entries].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
 
 	for (let i = 0; i < sorted.length; i++) {
 		const current = { ...sorted[i] };
+		const intervalMs = getRoundingConfig(current.phaseId).intervalMinutes * 60 * 1000;
+
+		// Entries without rounding can't have rounding-caused overlaps
+		if (intervalMs <= 0) {
+			result.push(current);
+			continue;
+		}
 
 		// Check for overlaps with previous entries
 		for (let j = 0; j < result.length; j++) {
@@ -114,16 +176,14 @@ export function handlePrecisionOverlapping(
 				current.endTime
 			);
 
-			// Only handle 5-minute overlaps caused by rounding
-			if (overlapMs === ROUNDING_INTERVAL_MINUTES * 60 * 1000) {
+			// Only handle one-interval overlaps caused by rounding
+			if (overlapMs === intervalMs) {
 				const currentCustomer = getCustomerId(current.phaseId);
 				const previousCustomer = getCustomerId(previous.phaseId);
 
 				// Same customer - postpone current entry
 				if (currentCustomer === previousCustomer && currentCustomer !== null) {
-					current.startTime = new Date(
-						current.startTime.getTime() + ROUNDING_INTERVAL_MINUTES * 60 * 1000
-					);
+					current.startTime = new Date(current.startTime.getTime() + intervalMs);
 
 					// If this creates a zero-duration entry, skip it
 					if (current.startTime >= current.endTime) {
@@ -183,13 +243,14 @@ export function handleOverlapping(entries: RoundedEntry[]): RoundedEntry[] {
  */
 export function applyHoursBalanceRounding(
 	entries: HourEntry[],
-	getCustomerId: (phaseId: number | null) => number | null
+	getCustomerId: (phaseId: number | null) => number | null,
+	getRoundingConfig: (phaseId: number | null) => RoundingConfig = getDefaultRoundingConfig
 ): RoundedEntry[] {
 	// Step 1: Apply precision rounding
-	let rounded = applyPrecisionRounding(entries);
+	let rounded = applyPrecisionRounding(entries, getRoundingConfig);
 
 	// Step 2: Handle precision overlapping for same customer
-	rounded = handlePrecisionOverlapping(rounded, getCustomerId);
+	rounded = handlePrecisionOverlapping(rounded, getCustomerId, getRoundingConfig);
 
 	// Steps 4-5: Detect remaining overlaps and mark as overtime
 	rounded = handleOverlapping(rounded);
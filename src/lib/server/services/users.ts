@@ -0,0 +1,88 @@
+import { db } from "$lib/server/db";
+import { users } from "$lib/server/db/schema";
+import { eq, and, ne } from "drizzle-orm";
+import { isUserRole } from "$lib/permissions";
+
+/**
+ * Get a user or throw if it does not exist
+ */
+async function getUser(userId: number) {
+	const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+
+	if (!user) {
+		throw new Error("User not found");
+	}
+
+	return user;
+}
+
+/**
+ * Check that another active admin remains when a user stops being one
+ */
+async function ensureOtherAdmin(userId: number): Promise<void> {
+	const [other] = await db
+		.select({ id: users.id })
+		.from(users)
+		.where(and(eq(users.role, "admin"), eq(users.active, true), ne(users.id, userId)))
+		.limit(1);
+
+	if (!other) {
+		throw new Error("At least one active admin is required");
+	}
+}
+
+/**
+ * Change a user's role
+ * Admins cannot change their own role so they cannot lock themselves out
+ */
+export async function updateUserRole(userId: number, role: string, actorId: number): Promise<void> {
+	if (!isUserRole(role)) {
+		throw new Error(`Unknown role: ${role}`);
+	}
+	if (userId === actorId) {
+		throw new Error("You cannot change your own role");
+	}
+
+	const user = await getUser(userId);
+	if (user.role === role) return;
+	if (user.role === "admin" && user.active) {
+		await ensureOtherAdmin(userId);
+	}
+
+	await db.update(users).set({ role, updatedAt: new Date() }).where(eq(users.id, userId));
+
+	console.log(
+		`[Users] User ${actorId} changed the role of user ${userId} from ${user.role} to ${role}`
+	);
+}
+
+/**
+ * Activate or deactivate a user
+ * Deactivated users cannot log in and stay inactive through Visma imports until reactivated
+ */
+export async function setUserActive(
+	userId: number,
+	active: boolean,
+	actorId: number
+): Promise<void> {
+	if (userId === actorId) {
+		throw new Error("You cannot deactivate yourself");
+	}
+
+	const user = await getUser(userId);
+	if (!active && user.role === "admin" && user.active) {
+		await ensureOtherAdmin(userId);
+	}
+
+	await db
+		.update(users)
+		.set({
+			active,
+			deactivatedBy: active ? null : actorId,
+			deactivatedAt: active ? null : new Date(),
+			updatedAt: new Date()
+		})
+		.where(eq(users.id, userId));
+
+	console.log(`[Users] User ${actorId} ${active ? "activated" : "deactivated"} user ${userId}`);
+}
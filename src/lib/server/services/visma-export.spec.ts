@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { HourEntry } from "$lib/server/db/schema";
+
+// In-memory stand-in for the derived rows of the hour entries table
+const fake = vi.hoisted(() => {
+	const rows: Record<string, unknown>[] = [];
+	let nextId = 100;
+
+	const db = {
+		select: () => ({
+			from: () => ({
+				where: () => ({ orderBy: async () => [...rows] })
+			})
+		}),
+		insert: () => ({
+			values: (values: Record<string, unknown>[]) => ({
+				returning: async () => {
+					const created = values.map((value) => ({ ...value, id: ++nextId }));
+					rows.push(...created);
+					return created;
+				}
+			})
+		})
+	};
+
+	return { db, rows };
+});
+
+vi.mock("$lib/server/db", () => ({ db: fake.db }));
+vi.mock("$lib/server/integrations/visma", () => ({ vismaClient: {} }));
+vi.mock("./entry-history", () => ({ recordEntryHistory: vi.fn() }));
+// Rounding is covered by its own tests, here every entry is billed as logged
+vi.mock("./billing", () => ({
+	calculateBillableEntries: async (entries: HourEntry[]) => ({
+		rounded: entries.map((e) => ({
+			hourEntryId: e.id,
+			phaseId: e.phaseId,
+			worktypeId: e.worktypeId,
+			description: e.description,
+			startTime: e.startTime,
+			endTime: e.endTime,
+			source: "inside-rounded"
+		})),
+		padding: []
+	})
+}));
+
+const { getOrCreateDerivedEntries } = await import("./visma-export");
+
+const TIMEZONE = "Europe/Helsinki";
+
+function raw(id: number, start: string, end: string): HourEntry {
+	return {
+		id,
+		userId: 1,
+		phaseId: 1,
+		worktypeId: 1,
+		description: null,
+		issueCode: null,
+		startTime: new Date(start),
+		endTime: new Date(end),
+		source: "inside",
+		status: "approved"
+	} as HourEntry;
+}
+
+describe("getOrCreateDerivedEntries", () => {
+	beforeEach(() => {
+		fake.rows.length = 0;
+	});
+
+	it("derives the rows of a day once", async () => {
+		const day = [raw(1, "2024-01-15T08:00:00Z", "2024-01-15T09:00:00Z")];
+
+		const first = await getOrCreateDerivedEntries(day, TIMEZONE);
+		const second = await getOrCreateDerivedEntries(day, TIMEZONE);
+
+		expect(first).toHaveLength(1);
+		expect(second.map((e) => e.id)).toEqual(first.map((e) => e.id));
+	});
+
+	it("derives entries that joined a day after it was first derived", async () => {
+		const morning = raw(1, "2024-01-15T08:00:00Z", "2024-01-15T09:00:00Z");
+		const evening = raw(2, "2024-01-15T20:00:00Z", "2024-01-15T21:00:00Z");
+
+		// The evening entry was grouped into another day on the first run, e.g. before a timezone change
+		await getOrCreateDerivedEntries([morning], TIMEZONE);
+		const derived = await getOrCreateDerivedEntries([morning, evening], TIMEZONE);
+
+		expect(derived.map((e) => e.originalHourEntryId)).toEqual([1, 2]);
+		expect(fake.rows).toHaveLength(2);
+	});
+});
@@ -0,0 +1,316 @@
+import { db } from "$lib/server/db";
+import {
+	hourEntries,
+	users,
+	phases,
+	worktypes,
+	syncLogs,
+	type HourEntry,
+	type NewHourEntry
+} from "$lib/server/db/schema";
+import { vismaClient, type VismaWorkHour } from "$lib/server/integrations/visma";
+import { DEFAULT_TIMEZONE } from "$lib/constants";
+import { eq, and, gte, lte, ne, isNull, inArray, asc } from "drizzle-orm";
+import { differenceInMinutes, format } from "date-fns";
+import { toZonedTime } from "date-fns-tz";
+import { calculateBillableEntries } from "./billing";
+import { recordEntryHistory } from "./entry-history";
+
+export interface ExportOptions {
+	userId?: number;
+	from?: Date;
+	to?: Date;
+	actorId?: number; // who started the export, recorded in the entry history
+}
+
+export interface ExportResult {
+	exported: number;
+	skipped: number;
+	failed: number;
+}
+
+export interface GuidMaps {
+	users: Map<number, string>;
+	timezones: Map<number, string>;
+	phases: Map<number, string>;
+	worktypes: Map<number, string>;
+}
+
+/**
+ * Load Visma GUID mappings for users, phases and worktypes
+ */
+export async function loadGuidMaps(): Promise<GuidMaps> {
+	const maps: GuidMaps = {
+		users: new Map(),
+		timezones: new Map(),
+		phases: new Map(),
+		worktypes: new Map()
+	};
+
+	const [allUsers, allPhases, allWorktypes] = await Promise.all([
+		db
+			.select({ id: users.id, vismaGuid: users.vismaGuid, timezone: users.timezone })
+			.from(users),
+		db.select({ id: phases.id, vismaGuid: phases.vismaGuid }).from(phases),
+		db.select({ id: worktypes.id, vismaGuid: worktypes.vismaGuid }).from(worktypes)
+	]);
+
+	for (const u of allUsers) if (u.vismaGuid) maps.users.set(u.id, u.vismaGuid);
+	for (const u of allUsers) maps.timezones.set(u.id, u.timezone);
+	for (const p of allPhases) if (p.vismaGuid) maps.phases.set(p.id, p.vismaGuid);
+	for (const w of allWorktypes) if (w.vismaGuid) maps.worktypes.set(w.id, w.vismaGuid);
+
+	return maps;
+}
+
+/**
+ * Map an hour entry to a Visma work hour payload
+ */
+export function toVismaWorkHour(
+	entry: Pick<HourEntry, "startTime" | "endTime" | "description">,
+	guids: { userGuid: string; phaseGuid: string; worktypeGuid: string }
+): Omit<VismaWorkHour, "guid"> {
+	const endTime = entry.endTime!;
+
+	return {
+		userGuid: guids.userGuid,
+		phaseGuid: guids.phaseGuid,
+		workTypeGuid: guids.worktypeGuid,
+		startTime: entry.startTime.toISOString(),
+		endTime: endTime.toISOString(),
+		quantity: differenceInMinutes(endTime, entry.startTime) / 60,
+		description: entry.description ?? undefined
+	};
+}
+
+/**
+ * Group raw entries by user and the user's local day
+ */
+function groupByUserDay(entries: HourEntry[], timezones: Map<number, string>): HourEntry[][] {
+	const groups = new Map<string, HourEntry[]>();
+
+	for (const entry of entries) {
+		const timeZone = timezones.get(entry.userId) ?? DEFAULT_TIMEZONE;
+		const dayKey = format(toZonedTime(entry.startTime, timeZone), "yyyy-MM-dd");
+		const key = `${entry.userId}:${dayKey}`;
+		if (!groups.has(key)) {
+			groups.set(key, []);
+		}
+		groups.get(key)!.push(entry);
+	}
+
+	return Array.from(groups.values());
+}
+
+/**
+ * Run a day's raw entries through rounding and minimum billing into rows to export
+ */
+export async function deriveBillableEntries(
+	rawEntries: HourEntry[],
+	timeZone: string
+): Promise<NewHourEntry[]> {
+	const { rounded, padding } = await calculateBillableEntries(rawEntries, timeZone);
+	const rawById = new Map(rawEntries.map((e) => [e.id, e]));
+
+	return [
+		...rounded.map((r) => ({
+			userId: rawById.get(r.hourEntryId)!.userId,
+			phaseId: r.phaseId,
+			worktypeId: r.worktypeId,
+			description: r.description,
+			issueCode: rawById.get(r.hourEntryId)!.issueCode,
+			startTime: r.startTime,
+			endTime: r.endTime,
+			source: r.source,
+			status: "approved",
+			originalHourEntryId: r.hourEntryId
+		})),
+		...padding.map((p) => ({
+			userId: rawById.get(p.originalHourEntryId)!.userId,
+			phaseId: p.phaseId,
+			worktypeId: p.worktypeId,
+			description: rawById.get(p.originalHourEntryId)!.description,
+			issueCode: rawById.get(p.originalHourEntryId)!.issueCode,
+			startTime: p.startTime,
+			endTime: p.endTime,
+			source: p.source,
+			status: "approved",
+			originalHourEntryId: p.originalHourEntryId
+		}))
+	];
+}
+
+/**
+ * Derive the billable rows for an approved day, reusing the ones derived on an earlier run
+ * Raw "inside" entries keep their logged times for auditing; the rounded and padding rows
+ * link back to them through originalHourEntryId and are the records that actually go to Visma.
+ * Entries without derived rows are derived now, e.g. when a timezone change regrouped the day
+ */
+export async function getOrCreateDerivedEntries(
+	rawEntries: HourEntry[],
+	timeZone: string
+): Promise<HourEntry[]> {
+	const rawIds = rawEntries.map((e) => e.id);
+
+	const existing = await db
+		.select()
+		.from(hourEntries)
+		.where(
+			and(
+				inArray(hourEntries.originalHourEntryId, rawIds),
+				ne(hourEntries.source, "inside"),
+				isNull(hourEntries.deletedAt)
+			)
+		)
+		.orderBy(asc(hourEntries.startTime));
+
+	const derivedIds = new Set(existing.map((e) => e.originalHourEntryId));
+	const underived = rawEntries.filter((e) => !derivedIds.has(e.id));
+	if (underived.length === 0) return existing;
+
+	const values = await deriveBillableEntries(underived, timeZone);
+	if (values.length === 0) return existing;
+
+	const created = await db.insert(hourEntries).values(values).returning();
+	return [...existing, ...created].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+}
+
+/**
+ * Export approved hour entries to Visma Severa as work hours
+ * Each approved day is first run through the rounding and minimum billing pipeline,
+ * the derived rows are exported and, once all of them are synced, the raw entries too
+ */
+export async function exportConfirmedEntries(options: ExportOptions = {}): Promise<ExportResult> {
+	const [log] = await db
+		.insert(syncLogs)
+		.values({
+			type: "visma-export",
+			entityType: "hour-entries",
+			status: "started",
+			startedAt: new Date()
+		})
+		.returning();
+
+	try {
+		const conditions = [
+			eq(hourEntries.status, "approved"),
+			eq(hourEntries.source, "inside"),
+			isNull(hourEntries.deletedAt)
+		];
+		if (options.userId) conditions.push(eq(hourEntries.userId, options.userId));
+		if (options.from) conditions.push(gte(hourEntries.startTime, options.from));
+		if (options.to) conditions.push(lte(hourEntries.startTime, options.to));
+
+		const rawEntries = await db
+			.select()
+			.from(hourEntries)
+			.where(and(...conditions))
+			.orderBy(asc(hourEntries.startTime));
+
+		const guidMaps = await loadGuidMaps();
+		const days = groupByUserDay(rawEntries, guidMaps.timezones);
+		console.log(
+			`[VismaExport] Found ${rawEntries.length} approved entries on ${days.length} days`
+		);
+
+		const result: ExportResult = { exported: 0, skipped: 0, failed: 0 };
+
+		for (const dayEntries of days) {
+			const derived = await getOrCreateDerivedEntries(
+				dayEntries,
+				guidMaps.timezones.get(dayEntries[0].userId) ?? DEFAULT_TIMEZONE
+			);
+			let allSynced = true;
+
+			for (const entry of derived) {
+				if (entry.status === "synced") continue;
+
+				const userGuid = guidMaps.users.get(entry.userId);
+				const phaseGuid = entry.phaseId ? guidMaps.phases.get(entry.phaseId) : undefined;
+				const worktypeGuid = entry.worktypeId
+					? guidMaps.worktypes.get(entry.worktypeId)
+					: undefined;
+
+				if (!userGuid || !phaseGuid || !worktypeGuid || !entry.endTime) {
+					console.log(`[VismaExport] Skipping entry ${entry.id} - not linked to Visma`);
+					result.skipped++;
+					allSynced = false;
+					continue;
+				}
+
+				try {
+					const workHour = await vismaClient.createWorkHour(
+						toVismaWorkHour(entry, { userGuid, phaseGuid, worktypeGuid })
+					);
+
+					await db
+						.update(hourEntries)
+						.set({
+							vismaGuid: workHour.guid,
+							status: "synced",
+							updatedAt: new Date()
+						})
+						.where(eq(hourEntries.id, entry.id));
+
+					result.exported++;
+				} catch (error) {
+					console.error(`[VismaExport] Error exporting entry ${entry.id}:`, error);
+					result.failed++;
+					allSynced = false;
+					// Continue with next entry
+				}
+			}
+
+			// Raw entries are done once everything derived from their day is in Visma
+			if (allSynced) {
+				const rawIds = dayEntries.map((e) => e.id);
+
+				const synced = await db
+					.update(hourEntries)
+					.set({
+						status: "synced",
+						updatedAt: new Date()
+					})
+					.where(inArray(hourEntries.id, rawIds))
+					.returning();
+
+				const beforeById = new Map(dayEntries.map((e) => [e.id, e]));
+				await recordEntryHistory(
+					options.actorId ?? null,
+					synced.map((after) => ({
+						event: "sync",
+						before: beforeById.get(after.id),
+						after
+					}))
+				);
+			}
+		}
+
+		console.log(
+			`[VismaExport] Exported ${result.exported}, skipped ${result.skipped}, failed ${result.failed}`
+		);
+
+		await db
+			.update(syncLogs)
+			.set({
+				status: "completed",
+				recordsProcessed: result.exported,
+				error: result.failed > 0 ? `${result.failed} entries failed to export` : null,
+				completedAt: new Date()
+			})
+			.where(eq(syncLogs.id, log.id));
+
+		return result;
+	} catch (error) {
+		await db
+			.update(syncLogs)
+			.set({
+				status: "failed",
+				error: error instanceof Error ? error.message : "Unknown error",
+				completedAt: new Date()
+			})
+			.where(eq(syncLogs.id, log.id));
+
+		throw error;
+	}
+}
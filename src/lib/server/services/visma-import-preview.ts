@@ -0,0 +1,293 @@
+import { randomUUID } from "crypto";
+import { db } from "$lib/server/db";
+import {
+	users,
+	customers,
+	cases,
+	phases,
+	worktypes,
+	vismaImportPreviews
+} from "$lib/server/db/schema";
+import { vismaClient } from "$lib/server/integrations/visma";
+import { and, eq, gt, isNotNull, lte } from "drizzle-orm";
+import {
+	fetchVismaSnapshot,
+	importAll,
+	type ImportAllResult,
+	type VismaSnapshot
+} from "./visma-import";
+
+// How long a dry run can be applied before it has to be fetched again
+const PREVIEW_TTL_MS = 1000 * 60 * 15; // 15 minutes
+
+export type PreviewEntityType = "customers" | "cases" | "phases" | "worktypes" | "users";
+
+export interface DiffItem {
+	guid: string;
+	name: string;
+	previousName?: string;
+}
+
+export interface EntityDiff {
+	created: DiffItem[];
+	renamed: DiffItem[];
+	closed: DiffItem[];
+	reopened: DiffItem[];
+	deactivated: DiffItem[];
+	unchanged: number;
+}
+
+export interface ImportPreview {
+	id: string;
+	vismaBaseUrl: string;
+	fetchedAt: Date;
+	expiresAt: Date;
+	diff: Record<PreviewEntityType, EntityDiff>;
+}
+
+// A local row compared against Visma: open means active, not closed, or not locked/completed
+interface LocalRecord {
+	name: string;
+	open: boolean;
+}
+
+// A record as Visma returns it
+interface RemoteRecord {
+	guid: string;
+	name: string;
+	open: boolean;
+}
+
+/**
+ * Compare Visma records against local rows keyed by the same GUIDs
+ * Local rows Visma didn't return are only reported when `reportMissing` is set, as on full imports
+ */
+function diffRecords(
+	local: Map<string, LocalRecord>,
+	remote: RemoteRecord[],
+	reportMissing: (guid: string) => boolean = () => true
+): EntityDiff {
+	const diff: EntityDiff = {
+		created: [],
+		renamed: [],
+		closed: [],
+		reopened: [],
+		deactivated: [],
+		unchanged: 0
+	};
+	const seen = new Set<string>();
+
+	for (const record of remote) {
+		seen.add(record.guid);
+		const existing = local.get(record.guid);
+
+		if (!existing) {
+			diff.created.push({ guid: record.guid, name: record.name });
+			continue;
+		}
+
+		let changed = false;
+		if (existing.name !== record.name) {
+			diff.renamed.push({
+				guid: record.guid,
+				name: record.name,
+				previousName: existing.name
+			});
+			changed = true;
+		}
+		if (existing.open && !record.open) {
+			diff.closed.push({ guid: record.guid, name: record.name });
+			changed = true;
+		} else if (!existing.open && record.open) {
+			diff.reopened.push({ guid: record.guid, name: record.name });
+			changed = true;
+		}
+		if (!changed) diff.unchanged++;
+	}
+
+	// Deactivation is skipped when Visma returned nothing, so the preview does the same
+	if (remote.length > 0) {
+		for (const [guid, record] of local) {
+			if (!seen.has(guid) && record.open && reportMissing(guid)) {
+				diff.deactivated.push({ guid, name: record.name });
+			}
+		}
+	}
+
+	return diff;
+}
+
+/**
+ * Compute what a full import of the snapshot would change, without writing
+ */
+async function diffSnapshot(
+	snapshot: VismaSnapshot
+): Promise<Record<PreviewEntityType, EntityDiff>> {
+	const [localCustomers, localCases, localPhases, localWorktypes, localUsers] = await Promise.all(
+		[
+			db.select().from(customers).where(isNotNull(customers.vismaGuid)),
+			db.select().from(cases).where(isNotNull(cases.vismaGuid)),
+			db.select().from(phases).where(isNotNull(phases.vismaGuid)),
+			db.select().from(worktypes).where(isNotNull(worktypes.vismaGuid)),
+			db.select().from(users)
+		]
+	);
+
+	// Cases of projects without a known customer are skipped on import
+	const knownCustomerGuids = new Set([
+		...localCustomers.map((c) => c.vismaGuid!),
+		...snapshot.customers.map((c) => c.guid)
+	]);
+	const importedProjects = snapshot.projects.filter(
+		(vp) => vp.customer?.guid && knownCustomerGuids.has(vp.customer.guid)
+	);
+
+	// Phases of projects whose fetch failed are left as they are
+	const caseGuidById = new Map(localCases.map((c) => [c.id, c.vismaGuid!]));
+	const localPhasesByGuid = new Map(localPhases.map((p) => [p.vismaGuid!, p]));
+	const remotePhases = Array.from(snapshot.phases.values()).flat();
+
+	// Users are matched by email on import, but reported by their Visma GUID
+	const vismaUsers = snapshot.users.filter((vu) => vu.email);
+	const localUsersByEmail = new Map(localUsers.map((u) => [u.email, u]));
+	const localUserRecords = new Map<string, LocalRecord>();
+	for (const vu of vismaUsers) {
+		const existing = localUsersByEmail.get(vu.email.toLowerCase());
+		if (existing) {
+			localUserRecords.set(vu.guid, {
+				name: `${existing.firstName} ${existing.lastName}`,
+				open: existing.active
+			});
+		}
+	}
+	for (const u of localUsers) {
+		if (u.vismaGuid && !localUserRecords.has(u.vismaGuid)) {
+			localUserRecords.set(u.vismaGuid, {
+				name: `${u.firstName} ${u.lastName}`,
+				open: u.active
+			});
+		}
+	}
+
+	return {
+		customers: diffRecords(
+			new Map(localCustomers.map((c) => [c.vismaGuid!, { name: c.name, open: c.active }])),
+			snapshot.customers.map((vc) => ({ guid: vc.guid, name: vc.name, open: vc.isActive }))
+		),
+		cases: diffRecords(
+			new Map(localCases.map((c) => [c.vismaGuid!, { name: c.name, open: !c.closed }])),
+			importedProjects.map((vp) => ({ guid: vp.guid, name: vp.name, open: !vp.isClosed }))
+		),
+		phases: diffRecords(
+			new Map(
+				localPhases.map((p) => [
+					p.vismaGuid!,
+					{ name: p.name, open: !p.completed && !p.locked }
+				])
+			),
+			remotePhases.map((vph) => ({
+				guid: vph.guid,
+				name: vph.name,
+				open: !vph.isCompleted && !vph.isLocked
+			})),
+			(guid) => {
+				const phase = localPhasesByGuid.get(guid);
+				const caseGuid = phase ? caseGuidById.get(phase.caseId) : undefined;
+				return !!caseGuid && snapshot.phases.has(caseGuid);
+			}
+		),
+		worktypes: diffRecords(
+			new Map(localWorktypes.map((w) => [w.vismaGuid!, { name: w.name, open: w.active }])),
+			snapshot.worktypes.map((vwt) => ({
+				guid: vwt.guid,
+				name: vwt.name,
+				open: vwt.isActive
+			}))
+		),
+		users: diffRecords(
+			localUserRecords,
+			vismaUsers.map((vu) => ({
+				guid: vu.guid,
+				name: `${vu.firstName} ${vu.lastName}`,
+				open: vu.isActive
+			}))
+		)
+	};
+}
+
+/**
+ * Serialize a snapshot for storage, phases are kept as [project GUID, phases] pairs
+ */
+function serializeSnapshot(snapshot: VismaSnapshot): string {
+	return JSON.stringify({ ...snapshot, phases: Array.from(snapshot.phases) });
+}
+
+function parseSnapshot(value: string): VismaSnapshot {
+	const snapshot = JSON.parse(value);
+	return {
+		...snapshot,
+		phases: new Map(snapshot.phases),
+		fetchedAt: new Date(snapshot.fetchedAt)
+	};
+}
+
+/**
+ * Drop dry runs that can no longer be applied
+ */
+async function pruneExpiredPreviews(): Promise<void> {
+	await db.delete(vismaImportPreviews).where(lte(vismaImportPreviews.expiresAt, new Date()));
+}
+
+/**
+ * Fetch everything from Visma and report what a full import would change, without writing
+ * The fetched data is stored for a while so exactly what was previewed can be applied,
+ * by whichever instance handles the request
+ */
+export async function previewImport(): Promise<ImportPreview> {
+	await pruneExpiredPreviews();
+
+	const snapshot = await fetchVismaSnapshot();
+	const diff = await diffSnapshot(snapshot);
+
+	const id = randomUUID();
+	const expiresAt = new Date(Date.now() + PREVIEW_TTL_MS);
+	await db
+		.insert(vismaImportPreviews)
+		.values({ id, snapshot: serializeSnapshot(snapshot), expiresAt });
+
+	return {
+		id,
+		vismaBaseUrl: vismaClient.baseUrl,
+		fetchedAt: snapshot.fetchedAt,
+		expiresAt,
+		diff
+	};
+}
+
+/**
+ * Write the data of a dry run as a full import
+ * The dry run is kept when the import fails, so it can be applied again
+ */
+export async function applyImportPreview(previewId: string): Promise<ImportAllResult> {
+	await pruneExpiredPreviews();
+
+	const [preview] = await db
+		.select()
+		.from(vismaImportPreviews)
+		.where(
+			and(
+				eq(vismaImportPreviews.id, previewId),
+				gt(vismaImportPreviews.expiresAt, new Date())
+			)
+		);
+	if (!preview) {
+		throw new Error("Dry run has expired, run it again before applying");
+	}
+
+	const result = await importAll({ full: true, snapshot: parseSnapshot(preview.snapshot) });
+	if (result.success) {
+		await db.delete(vismaImportPreviews).where(eq(vismaImportPreviews.id, previewId));
+	}
+
+	return result;
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("$lib/server/db", () => ({ db: {} }));
+vi.mock("$lib/server/integrations/visma", () => ({ vismaClient: {} }));
+
+const { matchExistingHours } = await import("./visma-import");
+
+describe("matchExistingHours", () => {
+	it("updates the imported copies of hours entered in Visma", () => {
+		const { exported, importedIds } = matchExistingHours([
+			{ id: 1, source: "visma", vismaGuid: "a" },
+			{ id: 2, source: "visma", vismaGuid: "b" }
+		]);
+
+		expect(exported.size).toBe(0);
+		expect([...importedIds]).toEqual([
+			["a", 1],
+			["b", 2]
+		]);
+	});
+
+	it("skips hours exported from here", () => {
+		const { exported, importedIds } = matchExistingHours([
+			{ id: 1, source: "inside", vismaGuid: "a" }
+		]);
+
+		expect([...exported]).toEqual(["a"]);
+		expect(importedIds.size).toBe(0);
+	});
+
+	it("does not bring back the copy removed when an entry was relinked", () => {
+		// The relinked entry and the imported copy it replaced hold the same GUID, in either order
+		const copy = { id: 1, source: "visma", vismaGuid: "a" };
+		const relinked = { id: 2, source: "inside-rounded", vismaGuid: "a" };
+
+		for (const held of [
+			[copy, relinked],
+			[relinked, copy]
+		]) {
+			const { exported } = matchExistingHours(held);
+			expect(exported.has("a")).toBe(true);
+		}
+	});
+});
@@ -0,0 +1,869 @@
+import { db } from "$lib/server/db";
+import {
+	users,
+	customers,
+	cases,
+	phases,
+	worktypes,
+	hourEntries,
+	syncLogs,
+	type NewHourEntry
+} from "$lib/server/db/schema";
+import {
+	vismaClient,
+	type VismaCustomer,
+	type VismaProject,
+	type VismaPhase,
+	type VismaWorkType,
+	type VismaUser,
+	type VismaWorkHour
+} from "$lib/server/integrations/visma";
+import { eq, and, desc, gte, lte, inArray, isNotNull, isNull, sql } from "drizzle-orm";
+import { subDays } from "date-fns";
+
+// Rows written per multi-row upsert
+const BATCH_SIZE = 500;
+
+// Parallel Visma requests when fetching phases project by project
+const FETCH_CONCURRENCY = 5;
+
+// Minimum time between progress updates of a running import
+const PROGRESS_INTERVAL_MS = 1000;
+
+// Days of work hours fetched when no range is given
+const HOURS_IMPORT_LOOKBACK_DAYS = 31;
+
+type ProgressReporter = (processed: number, total: number) => Promise<void>;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Postgres sets xmax to 0 for rows an upsert inserted rather than updated
+const insertedFlag = { inserted: sql<boolean>`(xmax = 0)` };
+
+interface ImportCounts {
+	created: number;
+	updated: number;
+	deactivated: number;
+}
+
+export type ImportEntityType =
+	"customers" | "cases" | "phases" | "worktypes" | "users" | "hour-entries";
+
+export type ImportMode = "full" | "incremental";
+
+/**
+ * Everything a full import reads from Visma, fetched up front so it can be previewed
+ */
+export interface VismaSnapshot {
+	customers: VismaCustomer[];
+	projects: VismaProject[];
+	phases: Map<string, VismaPhase[]>; // by project GUID, missing when the fetch failed
+	worktypes: VismaWorkType[];
+	users: VismaUser[];
+	fetchedAt: Date;
+}
+
+export interface ImportOptions {
+	full?: boolean; // ignore the watermark and fetch everything
+	snapshot?: VismaSnapshot; // write previously fetched data instead of calling Visma, implies full
+}
+
+export interface HoursImportOptions {
+	from?: Date; // defaults to HOURS_IMPORT_LOOKBACK_DAYS ago
+	to?: Date; // defaults to now
+	userId?: number; // only import the hours of one user
+}
+
+export interface ImportResult extends ImportCounts {
+	processed: number;
+	mode: ImportMode;
+}
+
+export interface ImportAllResult {
+	success: boolean;
+	results: Record<
+		"customers" | "projects" | "phases" | "worktypes" | "users",
+		{
+			success: boolean;
+			processed: number;
+		}
+	>;
+	error?: string;
+}
+
+/**
+ * Split rows into batches for multi-row upserts
+ */
+function chunk<T>(rows: T[], size: number): T[][] {
+	const batches: T[][] = [];
+	for (let i = 0; i < rows.length; i += size) {
+		batches.push(rows.slice(i, i + size));
+	}
+	return batches;
+}
+
+/**
+ * Keep the last row per key, as one upsert statement can't update the same row twice
+ */
+function uniqueBy<T>(rows: T[], key: (row: T) => string): T[] {
+	return Array.from(new Map(rows.map((row) => [key(row), row])).values());
+}
+
+/**
+ * Sort rows already holding the GUIDs of fetched hours into our own entries and imported copies
+ * A GUID held by any of our own entries, e.g. one exported or relinked from here, is not imported;
+ * removed copies are matched too, so they come back if Visma still has the hours
+ */
+export function matchExistingHours(
+	held: { id: number; source: string; vismaGuid: string | null }[]
+): { exported: Set<string>; importedIds: Map<string, number> } {
+	const exported = new Set<string>();
+	const importedIds = new Map<string, number>();
+
+	for (const row of held) {
+		if (row.source === "visma") {
+			importedIds.set(row.vismaGuid!, row.id);
+		} else {
+			exported.add(row.vismaGuid!);
+		}
+	}
+
+	return { exported, importedIds };
+}
+
+/**
+ * Map items with at most `limit` calls in flight at once
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T) => Promise<R>
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+
+	const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index]);
+		}
+	});
+
+	await Promise.all(workers);
+	return results;
+}
+
+/**
+ * Write rows in batches inside one transaction, reporting progress after each batch
+ * On full imports `deactivate` runs in the same transaction once all rows are written
+ */
+async function upsertInBatches<T>(
+	rows: T[],
+	progress: ProgressReporter,
+	write: (tx: Transaction, batch: T[]) => Promise<{ inserted: boolean }[]>,
+	deactivate?: (tx: Transaction) => Promise<number>
+): Promise<ImportCounts> {
+	const counts: ImportCounts = { created: 0, updated: 0, deactivated: 0 };
+
+	await db.transaction(async (tx) => {
+		for (const batch of chunk(rows, BATCH_SIZE)) {
+			const written = await write(tx, batch);
+			for (const row of written) {
+				if (row.inserted) counts.created++;
+				else counts.updated++;
+			}
+			await progress(counts.created + counts.updated, rows.length);
+		}
+
+		if (deactivate) {
+			counts.deactivated = await deactivate(tx);
+		}
+	});
+
+	return counts;
+}
+
+/**
+ * Deactivate local rows whose Visma record was not returned by a full import
+ * Rows are never deleted, as hour entries reference them
+ */
+async function deactivateMissing(
+	candidates: { id: number; vismaGuid: string | null }[],
+	returnedGuids: Set<string>,
+	deactivate: (ids: number[]) => Promise<unknown>
+): Promise<number> {
+	// An empty response is more likely an API problem than everything being deleted
+	if (returnedGuids.size === 0) {
+		console.warn("[VismaImport] Visma returned no records, skipping deactivation");
+		return 0;
+	}
+
+	const missingIds = candidates
+		.filter((row) => row.vismaGuid && !returnedGuids.has(row.vismaGuid))
+		.map((row) => row.id);
+
+	for (const batch of chunk(missingIds, BATCH_SIZE)) {
+		await deactivate(batch);
+	}
+
+	return missingIds.length;
+}
+
+/**
+ * Get the start of the last successful import of an entity type
+ * Using the start rather than the completion keeps changes made during that run
+ */
+async function getWatermark(entityType: ImportEntityType): Promise<Date | null> {
+	const [lastRun] = await db
+		.select({ startedAt: syncLogs.startedAt })
+		.from(syncLogs)
+		.where(
+			and(
+				eq(syncLogs.type, "visma-import"),
+				eq(syncLogs.entityType, entityType),
+				eq(syncLogs.status, "completed")
+			)
+		)
+		.orderBy(desc(syncLogs.startedAt))
+		.limit(1);
+
+	return lastRun?.startedAt ?? null;
+}
+
+/**
+ * Run an import and record it in the sync logs
+ * Without a changedSince watermark the import is a full one
+ */
+async function withSyncLog(
+	entityType: ImportEntityType,
+	changedSince: Date | null,
+	runImport: (changedSince: Date | undefined, progress: ProgressReporter) => Promise<ImportCounts>
+): Promise<ImportResult> {
+	const mode: ImportMode = changedSince ? "incremental" : "full";
+
+	const [log] = await db
+		.insert(syncLogs)
+		.values({
+			type: "visma-import",
+			entityType,
+			mode,
+			changedSince,
+			status: "started",
+			startedAt: new Date()
+		})
+		.returning();
+
+	// Record progress on the log so the admin page can follow a running import
+	let lastProgressAt = 0;
+	const progress: ProgressReporter = async (processed, total) => {
+		const now = Date.now();
+		if (now - lastProgressAt < PROGRESS_INTERVAL_MS && processed < total) return;
+		lastProgressAt = now;
+
+		await db
+			.update(syncLogs)
+			.set({ recordsProcessed: processed, recordsTotal: total })
+			.where(eq(syncLogs.id, log.id));
+	};
+
+	try {
+		const counts = await runImport(changedSince ?? undefined, progress);
+		const processed = counts.created + counts.updated;
+
+		await db
+			.update(syncLogs)
+			.set({
+				status: "completed",
+				recordsProcessed: processed,
+				recordsCreated: counts.created,
+				recordsUpdated: counts.updated,
+				recordsDeactivated: counts.deactivated,
+				completedAt: new Date()
+			})
+			.where(eq(syncLogs.id, log.id));
+
+		return { processed, mode, ...counts };
+	} catch (error) {
+		await db
+			.update(syncLogs)
+			.set({
+				status: "failed",
+				error: error instanceof Error ? error.message : "Unknown error",
+				completedAt: new Date()
+			})
+			.where(eq(syncLogs.id, log.id));
+
+		throw error;
+	}
+}
+
+/**
+ * Import customers from Visma, only those changed since the last successful import unless full
+ */
+export async function importCustomers(options: ImportOptions = {}): Promise<ImportResult> {
+	const watermark = options.full || options.snapshot ? null : await getWatermark("customers");
+
+	return withSyncLog("customers", watermark, async (changedSince, progress) => {
+		console.log(
+			`[ImportCustomers] Starting Visma customer fetch${changedSince ? ` (changed since ${changedSince.toISOString()})` : ""}...`
+		);
+		const vismaCustomers =
+			options.snapshot?.customers ?? (await vismaClient.getCustomers(changedSince));
+		console.log(`[ImportCustomers] Received ${vismaCustomers.length} customers from Visma`);
+
+		const rows = uniqueBy(
+			vismaCustomers.map((vc) => ({
+				name: vc.name,
+				vismaGuid: vc.guid,
+				active: vc.isActive
+			})),
+			(row) => row.vismaGuid
+		);
+
+		return upsertInBatches(
+			rows,
+			progress,
+			(tx, batch) =>
+				tx
+					.insert(customers)
+					.values(batch)
+					.onConflictDoUpdate({
+						target: customers.vismaGuid,
+						set: {
+							name: sql`excluded.name`,
+							active: sql`excluded.active`,
+							updatedAt: new Date()
+						}
+					})
+					.returning(insertedFlag),
+			// Only a full import knows which customers are gone
+			changedSince
+				? undefined
+				: async (tx) =>
+						deactivateMissing(
+							await tx
+								.select({ id: customers.id, vismaGuid: customers.vismaGuid })
+								.from(customers)
+								.where(
+									and(isNotNull(customers.vismaGuid), eq(customers.active, true))
+								),
+							new Set(vismaCustomers.map((vc) => vc.guid)),
+							(ids) =>
+								tx
+									.update(customers)
+									.set({ active: false, updatedAt: new Date() })
+									.where(inArray(customers.id, ids))
+						)
+		);
+	});
+}
+
+/**
+ * Import projects/cases from Visma, only those changed since the last successful import unless full
+ */
+export async function importProjects(options: ImportOptions = {}): Promise<ImportResult> {
+	const watermark = options.full || options.snapshot ? null : await getWatermark("cases");
+
+	return withSyncLog("cases", watermark, async (changedSince, progress) => {
+		const vismaProjects =
+			options.snapshot?.projects ?? (await vismaClient.getProjects(changedSince));
+
+		// Get customer mapping from database
+		const customerMap = new Map<string, number>();
+		const customerDefaults = new Map<number, number>();
+		const allCustomers = await db.select().from(customers);
+		for (const c of allCustomers) {
+			if (c.vismaGuid) customerMap.set(c.vismaGuid, c.id);
+			customerDefaults.set(c.id, c.defaultMinBillableTimeInMin ?? 0);
+		}
+
+		// Log customer count for debugging
+		console.log(`Found ${customerMap.size} customers in database for project mapping`);
+
+		const rows = [];
+		for (const vp of vismaProjects) {
+			// Use customer.guid from the nested customer object (Visma API v1.0 format)
+			const customerGuid = vp.customer?.guid;
+
+			if (!customerGuid) {
+				console.log(`Skipping project ${vp.name} - no customer assigned`);
+				continue;
+			}
+
+			const customerId = customerMap.get(customerGuid);
+			if (!customerId) {
+				console.log(
+					`Skipping project ${vp.name} - customer not in DB: ${vp.customer?.name} (${customerGuid})`
+				);
+				continue;
+			}
+
+			rows.push({
+				name: vp.name,
+				vismaGuid: vp.guid,
+				customerId,
+				closed: vp.isClosed,
+				ownerVismaGuid: vp.projectOwner?.guid ?? null,
+				// New cases inherit the customer default, existing ones keep their own value
+				minBillableTimeInMin: customerDefaults.get(customerId)
+			});
+		}
+
+		return upsertInBatches(
+			uniqueBy(rows, (row) => row.vismaGuid),
+			progress,
+			(tx, batch) =>
+				tx
+					.insert(cases)
+					.values(batch)
+					.onConflictDoUpdate({
+						target: cases.vismaGuid,
+						set: {
+							name: sql`excluded.name`,
+							closed: sql`excluded.closed`,
+							ownerVismaGuid: sql`excluded.owner_visma_guid`,
+							updatedAt: new Date()
+						}
+					})
+					.returning(insertedFlag),
+			// Only a full import knows which projects are gone
+			changedSince
+				? undefined
+				: async (tx) =>
+						deactivateMissing(
+							await tx
+								.select({ id: cases.id, vismaGuid: cases.vismaGuid })
+								.from(cases)
+								.where(and(isNotNull(cases.vismaGuid), eq(cases.closed, false))),
+							new Set(vismaProjects.map((vp) => vp.guid)),
+							(ids) =>
+								tx
+									.update(cases)
+									.set({ closed: true, updatedAt: new Date() })
+									.where(inArray(cases.id, ids))
+						)
+		);
+	});
+}
+
+/**
+ * Import phases from Visma
+ */
+export async function importPhases(options: ImportOptions = {}): Promise<ImportResult> {
+	return withSyncLog("phases", null, async (_changedSince, progress) => {
+		// Get case mapping first
+		const caseMap = new Map<string, number>();
+		const allCases = await db.select().from(cases);
+		for (const c of allCases) {
+			if (c.vismaGuid) caseMap.set(c.vismaGuid, c.id);
+		}
+
+		console.log(`[ImportPhases] Found ${caseMap.size} cases in database for phase mapping`);
+
+		// Fetch phases project by project to ensure we have projectGuid
+		// This is more reliable than fetching all phases at once
+		const projects = Array.from(caseMap.entries());
+		let fetched = 0;
+
+		// Projects whose phases could not be fetched keep their phases as they are
+		const fetchedCaseIds = new Set<number>();
+
+		const phasesPerProject = await mapWithConcurrency(
+			projects,
+			FETCH_CONCURRENCY,
+			async ([projectGuid, caseId]) => {
+				try {
+					const projectPhases = options.snapshot
+						? options.snapshot.phases.get(projectGuid)
+						: await vismaClient.getPhases(projectGuid);
+					if (!projectPhases) return [];
+
+					fetchedCaseIds.add(caseId);
+					return projectPhases.map((vph) => ({
+						name: vph.name,
+						vismaGuid: vph.guid,
+						caseId,
+						completed: vph.isCompleted,
+						locked: vph.isLocked
+					}));
+				} catch (error) {
+					console.error(
+						`[ImportPhases] Error fetching phases for project ${projectGuid}:`,
+						error
+					);
+					// Continue with next project
+					return [];
+				} finally {
+					await progress(++fetched, projects.length);
+				}
+			}
+		);
+
+		const rows = uniqueBy(phasesPerProject.flat(), (row) => row.vismaGuid);
+
+		const counts = await upsertInBatches(
+			rows,
+			progress,
+			(tx, batch) =>
+				tx
+					.insert(phases)
+					.values(batch)
+					.onConflictDoUpdate({
+						target: phases.vismaGuid,
+						set: {
+							name: sql`excluded.name`,
+							completed: sql`excluded.completed`,
+							locked: sql`excluded.locked`,
+							updatedAt: new Date()
+						}
+					})
+					.returning(insertedFlag),
+			// Phases have no active flag, so removed phases are locked
+			async (tx) =>
+				deactivateMissing(
+					(
+						await tx
+							.select({
+								id: phases.id,
+								vismaGuid: phases.vismaGuid,
+								caseId: phases.caseId
+							})
+							.from(phases)
+							.where(and(isNotNull(phases.vismaGuid), eq(phases.locked, false)))
+					).filter((phase) => fetchedCaseIds.has(phase.caseId)),
+					new Set(rows.map((row) => row.vismaGuid)),
+					(ids) =>
+						tx
+							.update(phases)
+							.set({ locked: true, updatedAt: new Date() })
+							.where(inArray(phases.id, ids))
+				)
+		);
+
+		console.log(
+			`[ImportPhases] Processed ${counts.created + counts.updated} phases from ${caseMap.size} projects, locked ${counts.deactivated} removed phases`
+		);
+
+		return counts;
+	});
+}
+
+/**
+ * Import worktypes from Visma
+ */
+export async function importWorktypes(options: ImportOptions = {}): Promise<ImportResult> {
+	return withSyncLog("worktypes", null, async (_changedSince, progress) => {
+		const vismaWorktypes = options.snapshot?.worktypes ?? (await vismaClient.getWorkTypes());
+
+		const rows = uniqueBy(
+			vismaWorktypes.map((vwt) => ({
+				name: vwt.name,
+				vismaGuid: vwt.guid,
+				active: vwt.isActive
+			})),
+			(row) => row.vismaGuid
+		);
+
+		return upsertInBatches(
+			rows,
+			progress,
+			(tx, batch) =>
+				tx
+					.insert(worktypes)
+					.values(batch)
+					.onConflictDoUpdate({
+						target: worktypes.vismaGuid,
+						set: {
+							name: sql`excluded.name`,
+							active: sql`excluded.active`,
+							updatedAt: new Date()
+						}
+					})
+					.returning(insertedFlag),
+			async (tx) =>
+				deactivateMissing(
+					await tx
+						.select({ id: worktypes.id, vismaGuid: worktypes.vismaGuid })
+						.from(worktypes)
+						.where(and(isNotNull(worktypes.vismaGuid), eq(worktypes.active, true))),
+					new Set(vismaWorktypes.map((vwt) => vwt.guid)),
+					(ids) =>
+						tx
+							.update(worktypes)
+							.set({ active: false, updatedAt: new Date() })
+							.where(inArray(worktypes.id, ids))
+				)
+		);
+	});
+}
+
+/**
+ * Import users from Visma
+ */
+export async function importUsers(options: ImportOptions = {}): Promise<ImportResult> {
+	return withSyncLog("users", null, async (_changedSince, progress) => {
+		const vismaUsers = options.snapshot?.users ?? (await vismaClient.getUsers());
+
+		const rows = uniqueBy(
+			vismaUsers
+				.filter((vu) => vu.email)
+				.map((vu) => ({
+					email: vu.email.toLowerCase(),
+					firstName: vu.firstName,
+					lastName: vu.lastName,
+					vismaGuid: vu.guid,
+					active: vu.isActive
+				})),
+			(row) => row.email
+		);
+
+		return upsertInBatches(
+			rows,
+			progress,
+			(tx, batch) =>
+				tx
+					.insert(users)
+					.values(batch)
+					.onConflictDoUpdate({
+						target: users.email,
+						set: {
+							firstName: sql`excluded.first_name`,
+							lastName: sql`excluded.last_name`,
+							vismaGuid: sql`excluded.visma_guid`,
+							// Users deactivated by an admin stay inactive
+							active: sql`excluded.active and ${users.deactivatedAt} is null`,
+							updatedAt: new Date()
+						}
+					})
+					.returning(insertedFlag),
+			// Users without a Visma GUID only log in through LDAP and are left alone
+			async (tx) =>
+				deactivateMissing(
+					await tx
+						.select({ id: users.id, vismaGuid: users.vismaGuid })
+						.from(users)
+						.where(and(isNotNull(users.vismaGuid), eq(users.active, true))),
+					new Set(vismaUsers.map((vu) => vu.guid)),
+					(ids) =>
+						tx
+							.update(users)
+							.set({ active: false, updatedAt: new Date() })
+							.where(inArray(users.id, ids))
+				)
+		);
+	});
+}
+
+/**
+ * Import all data from Visma in dependency order
+ * Stops at the first failing import
+ */
+export async function importAll(options: ImportOptions = {}): Promise<ImportAllResult> {
+	const results: ImportAllResult["results"] = {
+		customers: { success: false, processed: 0 },
+		projects: { success: false, processed: 0 },
+		phases: { success: false, processed: 0 },
+		worktypes: { success: false, processed: 0 },
+		users: { success: false, processed: 0 }
+	};
+
+	try {
+		const customersResult = await importCustomers(options);
+		results.customers = { success: true, processed: customersResult.processed };
+
+		const projectsResult = await importProjects(options);
+		results.projects = { success: true, processed: projectsResult.processed };
+
+		const phasesResult = await importPhases(options);
+		results.phases = { success: true, processed: phasesResult.processed };
+
+		const worktypesResult = await importWorktypes(options);
+		results.worktypes = { success: true, processed: worktypesResult.processed };
+
+		const usersResult = await importUsers(options);
+		results.users = { success: true, processed: usersResult.processed };
+
+		return { success: true, results };
+	} catch (error) {
+		return {
+			success: false,
+			results,
+			error: error instanceof Error ? error.message : "Unknown error"
+		};
+	}
+}
+
+/**
+ * Import work hours entered directly in Visma as read-only entries
+ * Hours exported from here already have a local row with their GUID and are skipped;
+ * imported hours no longer returned for the range are removed, as they were deleted in Visma
+ */
+export async function importHours(options: HoursImportOptions = {}): Promise<ImportResult> {
+	const to = options.to ?? new Date();
+	const from = options.from ?? subDays(to, HOURS_IMPORT_LOOKBACK_DAYS);
+
+	return withSyncLog("hour-entries", null, async (_changedSince, progress) => {
+		const userConditions = [isNotNull(users.vismaGuid), eq(users.active, true)];
+		if (options.userId) userConditions.push(eq(users.id, options.userId));
+
+		const [linkedUsers, allPhases, allWorktypes] = await Promise.all([
+			db
+				.select({ id: users.id, vismaGuid: users.vismaGuid })
+				.from(users)
+				.where(and(...userConditions)),
+			db.select({ id: phases.id, vismaGuid: phases.vismaGuid }).from(phases),
+			db.select({ id: worktypes.id, vismaGuid: worktypes.vismaGuid }).from(worktypes)
+		]);
+
+		const phaseIds = new Map(allPhases.map((p) => [p.vismaGuid, p.id]));
+		const worktypeIds = new Map(allWorktypes.map((w) => [w.vismaGuid, w.id]));
+
+		// Users whose hours failed to fetch keep their previously imported entries
+		const fetched = await mapWithConcurrency(linkedUsers, FETCH_CONCURRENCY, async (user) => {
+			try {
+				const workHours = await vismaClient.getWorkHours({
+					userGuid: user.vismaGuid!,
+					startDate: from,
+					endDate: to
+				});
+				return { userId: user.id, workHours };
+			} catch (error) {
+				console.error(`[ImportHours] Error fetching hours for user ${user.id}:`, error);
+				return null;
+			}
+		});
+		const userHours = fetched.filter(
+			(f): f is { userId: number; workHours: VismaWorkHour[] } => f !== null
+		);
+		console.log(
+			`[ImportHours] Fetched hours of ${userHours.length}/${linkedUsers.length} users`
+		);
+
+		const rows = uniqueBy(
+			userHours.flatMap(({ userId, workHours }) =>
+				workHours
+					.filter((wh) => wh.guid)
+					.map((wh): NewHourEntry => ({
+						userId,
+						phaseId: phaseIds.get(wh.phaseGuid) ?? null,
+						worktypeId: worktypeIds.get(wh.workTypeGuid) ?? null,
+						description: wh.description ?? null,
+						startTime: new Date(wh.startTime),
+						endTime: new Date(wh.endTime),
+						source: "visma",
+						status: "synced",
+						vismaGuid: wh.guid
+					}))
+			),
+			(row) => row.vismaGuid!
+		);
+
+		// Rows already holding a GUID: earlier imports, and our own exported entries
+		const held: { id: number; source: string; vismaGuid: string | null }[] = [];
+		for (const batch of chunk(
+			rows.map((row) => row.vismaGuid!),
+			BATCH_SIZE
+		)) {
+			const found = await db
+				.select({
+					id: hourEntries.id,
+					source: hourEntries.source,
+					vismaGuid: hourEntries.vismaGuid
+				})
+				.from(hourEntries)
+				.where(inArray(hourEntries.vismaGuid, batch));
+			held.push(...found);
+		}
+		const { exported, importedIds } = matchExistingHours(held);
+
+		const imported = rows.filter((row) => !exported.has(row.vismaGuid!));
+		console.log(
+			`[ImportHours] ${imported.length} hours entered in Visma, ${rows.length - imported.length} exported from here`
+		);
+
+		return upsertInBatches(
+			imported,
+			progress,
+			async (tx, batch) => {
+				const inserts = batch.filter((row) => !importedIds.has(row.vismaGuid!));
+				if (inserts.length > 0) await tx.insert(hourEntries).values(inserts);
+
+				const updates = batch.filter((row) => importedIds.has(row.vismaGuid!));
+				for (const row of updates) {
+					await tx
+						.update(hourEntries)
+						.set({ ...row, deletedAt: null, updatedAt: new Date() })
+						.where(eq(hourEntries.id, importedIds.get(row.vismaGuid!)!));
+				}
+
+				return [
+					...inserts.map(() => ({ inserted: true })),
+					...updates.map(() => ({ inserted: false }))
+				];
+			},
+			// Unlike the other imports an empty response is normal here, e.g. during a vacation
+			async (tx) => {
+				let removed = 0;
+				for (const { userId, workHours } of userHours) {
+					const returnedGuids = new Set(workHours.map((wh) => wh.guid));
+					const missingIds = (
+						await tx
+							.select({ id: hourEntries.id, vismaGuid: hourEntries.vismaGuid })
+							.from(hourEntries)
+							.where(
+								and(
+									eq(hourEntries.userId, userId),
+									eq(hourEntries.source, "visma"),
+									gte(hourEntries.startTime, from),
+									lte(hourEntries.startTime, to),
+									isNull(hourEntries.deletedAt)
+								)
+							)
+					)
+						.filter((row) => !returnedGuids.has(row.vismaGuid!))
+						.map((row) => row.id);
+
+					if (missingIds.length > 0) {
+						await tx
+							.update(hourEntries)
+							.set({ deletedAt: new Date(), updatedAt: new Date() })
+							.where(inArray(hourEntries.id, missingIds));
+						removed += missingIds.length;
+					}
+				}
+				return removed;
+			}
+		);
+	});
+}
+
+/**
+ * Fetch everything a full import needs from Visma without writing anything
+ */
+export async function fetchVismaSnapshot(): Promise<VismaSnapshot> {
+	const fetchedAt = new Date();
+	const [vismaCustomers, vismaProjects, vismaWorktypes, vismaUsers] = await Promise.all([
+		vismaClient.getCustomers(),
+		vismaClient.getProjects(),
+		vismaClient.getWorkTypes(),
+		vismaClient.getUsers()
+	]);
+
+	const phasesByProject = new Map<string, VismaPhase[]>();
+	await mapWithConcurrency(vismaProjects, FETCH_CONCURRENCY, async (vp) => {
+		try {
+			phasesByProject.set(vp.guid, await vismaClient.getPhases(vp.guid));
+		} catch (error) {
+			console.error(`[VismaSnapshot] Error fetching phases for project ${vp.guid}:`, error);
+		}
+	});
+
+	return {
+		customers: vismaCustomers,
+		projects: vismaProjects,
+		phases: phasesByProject,
+		worktypes: vismaWorktypes,
+		users: vismaUsers,
+		fetchedAt
+	};
+}
@@ -0,0 +1,383 @@
+import { db } from "$lib/server/db";
+import { hourEntries, users, phases, worktypes, type HourEntry } from "$lib/server/db/schema";
+import { vismaClient, type VismaWorkHour } from "$lib/server/integrations/visma";
+import { eq, and, ne, gte, lt, inArray, isNotNull, isNull } from "drizzle-orm";
+import { addDays, addMonths, differenceInMinutes, parseISO } from "date-fns";
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+import { loadGuidMaps, toVismaWorkHour } from "./visma-export";
+import { mapWithConcurrency } from "./visma-import";
+
+// Parallel Visma requests when fetching work hours user by user
+const FETCH_CONCURRENCY = 5;
+
+export type ReconciliationField = "duration" | "phase" | "worktype" | "description";
+
+export interface ReconciliationRecord {
+	vismaGuid: string;
+	userId: number;
+	userName: string;
+	startTime: Date;
+	durationMinutes: number;
+	phaseName: string | null;
+	worktypeName: string | null;
+	description: string | null;
+}
+
+export interface LocalReconciliationRecord extends ReconciliationRecord {
+	entryId: number;
+	source: string; // "visma" for hours imported from Visma, which are fixed by importing again
+}
+
+export interface MissingRecord extends LocalReconciliationRecord {
+	// Visma records of the same user and day this row could be linked to instead
+	linkCandidates: ReconciliationRecord[];
+}
+
+export interface MismatchedRecord {
+	local: LocalReconciliationRecord;
+	visma: ReconciliationRecord;
+	fields: ReconciliationField[];
+}
+
+export interface ReconciliationReport {
+	month: string;
+	usersChecked: number;
+	usersFailed: string[];
+	matched: number;
+	missing: MissingRecord[]; // synced here, not found in Visma
+	extra: ReconciliationRecord[]; // in Visma, not known here
+	mismatched: MismatchedRecord[];
+}
+
+interface ReconciledUser {
+	id: number;
+	name: string;
+	vismaGuid: string;
+	timezone: string;
+}
+
+/**
+ * Get the UTC bounds of a yyyy-MM month in a timezone
+ */
+function getMonthBounds(month: string, timeZone: string): { from: Date; to: Date } {
+	const monthStart = parseISO(`${month}-01`);
+	return {
+		from: fromZonedTime(monthStart, timeZone),
+		to: fromZonedTime(addMonths(monthStart, 1), timeZone)
+	};
+}
+
+/**
+ * Duration of a Visma work hour, preferring its quantity over the times
+ */
+function getVismaDurationMinutes(workHour: VismaWorkHour): number {
+	if (workHour.quantity !== undefined) return Math.round(workHour.quantity * 60);
+	return differenceInMinutes(new Date(workHour.endTime), new Date(workHour.startTime));
+}
+
+/**
+ * Compare the fields of a synced row with its Visma record
+ */
+function getMismatchedFields(
+	local: HourEntry,
+	workHour: VismaWorkHour,
+	guids: { phaseGuid?: string; worktypeGuid?: string }
+): ReconciliationField[] {
+	const fields: ReconciliationField[] = [];
+
+	const localMinutes = local.endTime ? differenceInMinutes(local.endTime, local.startTime) : 0;
+	if (localMinutes !== getVismaDurationMinutes(workHour)) fields.push("duration");
+	if (guids.phaseGuid !== workHour.phaseGuid) fields.push("phase");
+	if (guids.worktypeGuid !== workHour.workTypeGuid) fields.push("worktype");
+	if ((local.description ?? "").trim() !== (workHour.description ?? "").trim()) {
+		fields.push("description");
+	}
+
+	return fields;
+}
+
+/**
+ * Compare the hours synced with Visma in a month against what Visma has
+ * Rows are matched by their Visma GUID; without userIds all users linked to Visma are checked
+ */
+export async function getReconciliationReport(
+	month: string,
+	userIds: number[] = []
+): Promise<ReconciliationReport> {
+	const userConditions = [isNotNull(users.vismaGuid)];
+	if (userIds.length > 0) userConditions.push(inArray(users.id, userIds));
+
+	const [linkedUsers, allPhases, allWorktypes] = await Promise.all([
+		db
+			.select({
+				id: users.id,
+				firstName: users.firstName,
+				lastName: users.lastName,
+				vismaGuid: users.vismaGuid,
+				timezone: users.timezone
+			})
+			.from(users)
+			.where(and(...userConditions)),
+		db.select({ id: phases.id, name: phases.name, vismaGuid: phases.vismaGuid }).from(phases),
+		db
+			.select({ id: worktypes.id, name: worktypes.name, vismaGuid: worktypes.vismaGuid })
+			.from(worktypes)
+	]);
+
+	const phasesById = new Map(allPhases.map((p) => [p.id, p]));
+	const phaseNamesByGuid = new Map(allPhases.map((p) => [p.vismaGuid, p.name]));
+	const worktypesById = new Map(allWorktypes.map((w) => [w.id, w]));
+	const worktypeNamesByGuid = new Map(allWorktypes.map((w) => [w.vismaGuid, w.name]));
+
+	const report: ReconciliationReport = {
+		month,
+		usersChecked: 0,
+		usersFailed: [],
+		matched: 0,
+		missing: [],
+		extra: [],
+		mismatched: []
+	};
+
+	const reconciledUsers: ReconciledUser[] = linkedUsers.map((u) => ({
+		id: u.id,
+		name: `${u.firstName} ${u.lastName}`,
+		vismaGuid: u.vismaGuid!,
+		timezone: u.timezone
+	}));
+
+	await mapWithConcurrency(reconciledUsers, FETCH_CONCURRENCY, async (user) => {
+		const { from, to } = getMonthBounds(month, user.timezone);
+
+		let workHours: VismaWorkHour[];
+		try {
+			// Visma filters by calendar date, so the range is padded and narrowed below
+			workHours = (
+				await vismaClient.getWorkHours({
+					userGuid: user.vismaGuid,
+					startDate: addDays(from, -1),
+					endDate: addDays(to, 1)
+				})
+			).filter((wh) => {
+				const start = new Date(wh.startTime);
+				return wh.guid && start >= from && start < to;
+			});
+		} catch (error) {
+			console.error(`[Reconciliation] Error fetching hours for user ${user.id}:`, error);
+			report.usersFailed.push(user.name);
+			return;
+		}
+
+		const localRows = await db
+			.select()
+			.from(hourEntries)
+			.where(
+				and(
+					eq(hourEntries.userId, user.id),
+					isNotNull(hourEntries.vismaGuid),
+					gte(hourEntries.startTime, from),
+					lt(hourEntries.startTime, to),
+					isNull(hourEntries.deletedAt)
+				)
+			);
+
+		const toLocalRecord = (entry: HourEntry): LocalReconciliationRecord => ({
+			entryId: entry.id,
+			source: entry.source,
+			vismaGuid: entry.vismaGuid!,
+			userId: user.id,
+			userName: user.name,
+			startTime: entry.startTime,
+			durationMinutes: entry.endTime
+				? differenceInMinutes(entry.endTime, entry.startTime)
+				: 0,
+			phaseName: entry.phaseId ? (phasesById.get(entry.phaseId)?.name ?? null) : null,
+			worktypeName: entry.worktypeId
+				? (worktypesById.get(entry.worktypeId)?.name ?? null)
+				: null,
+			description: entry.description
+		});
+
+		const toVismaRecord = (workHour: VismaWorkHour): ReconciliationRecord => ({
+			vismaGuid: workHour.guid!,
+			userId: user.id,
+			userName: user.name,
+			startTime: new Date(workHour.startTime),
+			durationMinutes: getVismaDurationMinutes(workHour),
+			phaseName: phaseNamesByGuid.get(workHour.phaseGuid) ?? null,
+			worktypeName: worktypeNamesByGuid.get(workHour.workTypeGuid) ?? null,
+			description: workHour.description ?? null
+		});
+
+		const workHoursByGuid = new Map(workHours.map((wh) => [wh.guid!, wh]));
+		const localGuids = new Set(localRows.map((row) => row.vismaGuid!));
+		const dayOf = (date: Date) => formatInTimeZone(date, user.timezone, "yyyy-MM-dd");
+
+		// Visma records that only have an imported copy here can take over a missing row
+		const linkable = workHours.filter((wh) => {
+			const copy = localRows.find((row) => row.vismaGuid === wh.guid);
+			return !copy || copy.source === "visma";
+		});
+
+		for (const row of localRows) {
+			const workHour = workHoursByGuid.get(row.vismaGuid!);
+
+			if (!workHour) {
+				report.missing.push({
+					...toLocalRecord(row),
+					linkCandidates:
+						row.source === "visma"
+							? []
+							: linkable
+									.filter(
+										(wh) =>
+											dayOf(new Date(wh.startTime)) === dayOf(row.startTime)
+									)
+									.map(toVismaRecord)
+				});
+				continue;
+			}
+
+			const fields = getMismatchedFields(row, workHour, {
+				phaseGuid: row.phaseId
+					? (phasesById.get(row.phaseId)?.vismaGuid ?? undefined)
+					: undefined,
+				worktypeGuid: row.worktypeId
+					? (worktypesById.get(row.worktypeId)?.vismaGuid ?? undefined)
+					: undefined
+			});
+
+			if (fields.length > 0) {
+				report.mismatched.push({
+					local: toLocalRecord(row),
+					visma: toVismaRecord(workHour),
+					fields
+				});
+			} else {
+				report.matched++;
+			}
+		}
+
+		for (const workHour of workHours) {
+			if (!localGuids.has(workHour.guid!)) {
+				report.extra.push(toVismaRecord(workHour));
+			}
+		}
+
+		report.usersChecked++;
+	});
+
+	const byStart = (a: { startTime: Date }, b: { startTime: Date }) =>
+		a.startTime.getTime() - b.startTime.getTime();
+	report.missing.sort(byStart);
+	report.extra.sort(byStart);
+	report.mismatched.sort((a, b) => byStart(a.local, b.local));
+
+	return report;
+}
+
+/**
+ * Get a synced row that was exported from here, as only those can be pushed or linked
+ */
+async function getExportedEntry(entryId: number): Promise<HourEntry> {
+	const [entry] = await db
+		.select()
+		.from(hourEntries)
+		.where(and(eq(hourEntries.id, entryId), isNull(hourEntries.deletedAt)))
+		.limit(1);
+
+	if (!entry) {
+		throw new Error("Hour entry not found");
+	}
+	if (entry.source === "visma") {
+		throw new Error("Hours entered in Visma are corrected by importing them again");
+	}
+	if (entry.status !== "synced" || !entry.vismaGuid) {
+		throw new Error("Hour entry has not been exported to Visma");
+	}
+
+	return entry;
+}
+
+/**
+ * Send a synced row to Visma again
+ * The record is updated when Visma still has it, and created again when it was deleted there
+ */
+export async function repushHourEntry(entryId: number): Promise<HourEntry> {
+	const entry = await getExportedEntry(entryId);
+	const guidMaps = await loadGuidMaps();
+
+	const userGuid = guidMaps.users.get(entry.userId);
+	const phaseGuid = entry.phaseId ? guidMaps.phases.get(entry.phaseId) : undefined;
+	const worktypeGuid = entry.worktypeId ? guidMaps.worktypes.get(entry.worktypeId) : undefined;
+
+	if (!userGuid || !phaseGuid || !worktypeGuid || !entry.endTime) {
+		throw new Error("Hour entry is not linked to Visma");
+	}
+
+	const payload = toVismaWorkHour(entry, { userGuid, phaseGuid, worktypeGuid });
+
+	const sameDay = await vismaClient.getWorkHours({
+		userGuid,
+		startDate: addDays(entry.startTime, -1),
+		endDate: addDays(entry.startTime, 1)
+	});
+	const exists = sameDay.some((wh) => wh.guid === entry.vismaGuid);
+
+	const workHour = exists
+		? await vismaClient.updateWorkHour(entry.vismaGuid!, payload)
+		: await vismaClient.createWorkHour(payload);
+
+	const [updated] = await db
+		.update(hourEntries)
+		.set({ vismaGuid: workHour.guid ?? entry.vismaGuid, updatedAt: new Date() })
+		.where(eq(hourEntries.id, entry.id))
+		.returning();
+
+	return updated;
+}
+
+/**
+ * Point a synced row at another Visma record, e.g. one re-created by hand in Visma
+ * An imported copy of that record is removed so the hours are not shown twice
+ */
+export async function relinkHourEntry(entryId: number, vismaGuid: string): Promise<HourEntry> {
+	const entry = await getExportedEntry(entryId);
+
+	return db.transaction(async (tx) => {
+		const [linked] = await tx
+			.select({ id: hourEntries.id })
+			.from(hourEntries)
+			.where(
+				and(
+					eq(hourEntries.vismaGuid, vismaGuid),
+					ne(hourEntries.source, "visma"),
+					ne(hourEntries.id, entry.id),
+					isNull(hourEntries.deletedAt)
+				)
+			)
+			.limit(1);
+		if (linked) {
+			throw new Error("Visma record is already linked to another hour entry");
+		}
+
+		await tx
+			.update(hourEntries)
+			.set({ deletedAt: new Date(), updatedAt: new Date() })
+			.where(
+				and(
+					eq(hourEntries.vismaGuid, vismaGuid),
+					eq(hourEntries.source, "visma"),
+					isNull(hourEntries.deletedAt)
+				)
+			);
+
+		const [updated] = await tx
+			.update(hourEntries)
+			.set({ vismaGuid, updatedAt: new Date() })
+			.where(eq(hourEntries.id, entry.id))
+			.returning();
+
+		return updated;
+	});
+}
@@ -0,0 +1,39 @@
+import { error, redirect } from "@sveltejs/kit";
+import type { LayoutServerLoad } from "./$types";
+import { validateSession } from "$lib/server/auth/session";
+import { hasAdminAccess, hasPermission, type Permission } from "$lib/permissions";
+
+// Admin pages open to other roles than admin, by the permission they need
+// The overview shows the sections the user's permissions allow, every other page is for admins
+const PAGE_PERMISSIONS: Record<string, { permission: Permission; message: string }> = {
+	"/admin/jobs": {
+		permission: "manage-sync",
+		message: "You need permission to manage syncs to access this page."
+	},
+	"/admin/reconciliation": {
+		permission: "view-reports",
+		message: "You need permission to view reports to access this page."
+	}
+};
+
+export const load: LayoutServerLoad = async ({ cookies, route }) => {
+	const user = await validateSession(cookies);
+
+	if (!user) {
+		redirect(302, "/login");
+	}
+
+	if (!hasAdminAccess(user.role)) {
+		error(403, "You need admin privileges to access this page.");
+	}
+
+	const page = route.id ? PAGE_PERMISSIONS[route.id] : undefined;
+	if (page && !hasPermission(user.role, page.permission)) {
+		error(403, page.message);
+	}
+	if (!page && route.id !== "/admin" && user.role !== "admin") {
+		error(403, "You need admin privileges to access this page.");
+	}
+
+	return { user };
+};
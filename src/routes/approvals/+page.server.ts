@@ -0,0 +1,18 @@
+import { error, redirect } from "@sveltejs/kit";
+import type { PageServerLoad } from "./$types";
+import { validateSession } from "$lib/server/auth/session";
+import { hasPermission } from "$lib/permissions";
+
+export const load: PageServerLoad = async ({ cookies }) => {
+	const user = await validateSession(cookies);
+
+	if (!user) {
+		redirect(302, "/login");
+	}
+
+	if (!hasPermission(user.role, "approve-hours")) {
+		error(403, "You need permission to approve hours to access this page.");
+	}
+
+	return { user };
+};
@@ -3,3 +3,6 @@ export { default as DayHeader } from "./DayHeader.svelte";
 export { default as EntryList } from "./EntryList.svelte";
 export { default as EntryItem } from "./EntryItem.svelte";
 export { default as EntryForm } from "./EntryForm.svelte";
+export { default as BillingPreview } from "./BillingPreview.svelte";
+export { default as CorrectionDialog } from "./CorrectionDialog.svelte";
+export { default as EntryHistoryDrawer } from "./EntryHistoryDrawer.svelte";
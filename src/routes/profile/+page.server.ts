@@ -5,11 +5,10 @@ import { validateSession } from "$lib/server/auth/session";
 export const load: PageServerLoad = async ({ cookies }) => {
 	const user = await validateSession(cookies);
 
+	// Require authentication
 	if (!user) {
 		redirect(302, "/login");
 	}
 
-	// Admin page also requires admin role - but we handle that in the component
-	// for a better UX (showing "Access Denied" instead of redirect)
 	return { user };
 };